@@ -3,6 +3,7 @@
  * Licensed under the MIT License.
  */
 import express from "express";
+import jwt from "jsonwebtoken";
 
 import {
     RequestHandler,
@@ -12,11 +13,18 @@ import {
     Router
 } from "express";
 
+import { Store } from "express-session";
+import { STATUS_CODES } from "http";
+
 import {
+    Constants,
     InteractionRequiredAuthError,
+    ServerError,
+    ResponseMode,
     OIDC_DEFAULT_SCOPES,
     PromptValue,
     StringUtils,
+    AuthenticationScheme,
 } from "@azure/msal-common";
 
 import {
@@ -29,33 +37,70 @@ import {
     AuthorizationCodeRequest,
     SilentFlowRequest,
     OnBehalfOfRequest,
+    ClientCredentialRequest,
 } from "@azure/msal-node";
 
 import { ConfigurationUtils } from "./ConfigurationUtils";
 import { TokenValidator } from "./TokenValidator";
 import { KeyVaultManager } from "./KeyVaultManager";
 import { FetchManager } from "./FetchManager";
+import { PopClientApplication } from "./PopClientApplication";
 import { UrlUtils } from "./UrlUtils";
+import { CryptoUtils } from "./CryptoUtils";
+import { InMemorySessionStoreAdapter } from "./InMemorySessionStoreAdapter";
+import { CookieSessionManager } from "./CookieSessionManager";
+import { PartitionedCachePlugin } from "./PartitionedCachePlugin";
+import { FileCacheStore } from "./FileCacheStore";
+import { InMemoryCacheStore } from "./InMemoryCacheStore";
 import { Logger } from "./Logger";
 
 import {
     Resource,
     AppSettings,
     AuthCodeParams,
+    State,
+    RedirectParams,
     InitializationOptions,
     TokenRequestOptions,
+    MultipleTokenRequestOptions,
     GuardOptions,
+    AccessMatrixOptions,
     AccessRule,
     SignInOptions,
     SignOutOptions,
-    HandleRedirectOptions
+    UserFlowOptions,
+    ConsentOptions,
+    HandleRedirectOptions,
+    ISessionStoreAdapter,
+    BearerChallenge,
+    ICacheStore,
+    IdTokenClaims,
+    AccessTokenClaims,
+    LogoutTokenClaims,
+    SignedHttpRequestClaims,
+    PopSilentFlowRequest
 } from "./Types";
 
 import {
     AppStages,
+    CryptoConstants,
     ErrorMessages,
+    ErrorCodes,
+    ConfigurationErrorMessages,
+    B2CPolicyNames,
+    B2CConstants,
     AccessConstants,
-    InfoMessages
+    InfoMessages,
+    StateConstants,
+    CacheConstants,
+    ScopeConstants,
+    GuardResponseTypes,
+    ProblemDetailsConstants,
+    FormPostConstants,
+    LogoutConstants,
+    RedirectConstants,
+    BearerChallengeConstants,
+    PopConstants
 } from "./Constants";
 
 /**
@@ -70,6 +115,11 @@ export class AuthProvider {
     private cryptoProvider: CryptoProvider;
     private tokenValidator: TokenValidator;
     private msalClient: ConfidentialClientApplication;
+    private stateKeys: Buffer[];
+    private sessionKeys: Buffer[];
+    private responseMode: ResponseMode = ResponseMode.QUERY;
+    private sessionStoreAdapter: ISessionStoreAdapter = new InMemorySessionStoreAdapter();
+    private oboCache: ICacheStore = new InMemoryCacheStore();
 
     /**
      * @param {AppSettings} appSettings
@@ -81,10 +131,25 @@ export class AuthProvider {
         this.appSettings = appSettings;
 
         this.msalConfig = ConfigurationUtils.getMsalConfiguration(appSettings, cache);
-        this.msalClient = new ConfidentialClientApplication(this.msalConfig);
+        this.msalClient = PopClientApplication.create(this.msalConfig);
 
         this.tokenValidator = new TokenValidator(this.appSettings, this.msalConfig);
         this.cryptoProvider = new CryptoProvider();
+
+        let encryptionKeys: Buffer[];
+
+        if (this.appSettings.stateProtection) {
+            encryptionKeys = this.appSettings.stateProtection.encryptionKeys
+                .filter(key => !StringUtils.isEmpty(key))
+                .map(key => CryptoUtils.deriveKey(key));
+        } else {
+            Logger.logWarning(InfoMessages.EPHEMERAL_STATE_KEY);
+            encryptionKeys = [CryptoUtils.generateKey()];
+        }
+
+        // state and session cookie are sealed with separate subkeys
+        this.stateKeys = encryptionKeys.map(key => CryptoUtils.deriveSubkey(key, CryptoConstants.STATE_KEY_LABEL));
+        this.sessionKeys = encryptionKeys.map(key => CryptoUtils.deriveSubkey(key, CryptoConstants.SESSION_KEY_LABEL));
     }
 
     /**
@@ -111,23 +176,73 @@ export class AuthProvider {
      */
     initialize = (options?: InitializationOptions): Router => {
 
-        // TODO: initialize app defaults
+        if (options?.saveCacheToDisk && !this.msalConfig.cache.cachePlugin) {
+            // persist token cache to disk, partitioned by user
+            this.msalConfig = ConfigurationUtils.getMsalConfiguration(this.appSettings, new PartitionedCachePlugin(new FileCacheStore()));
+            this.msalClient = PopClientApplication.create(this.msalConfig);
+            this.tokenValidator = new TokenValidator(this.appSettings, this.msalConfig);
+        }
 
         const appRouter = express.Router();
 
+        if (options?.useSession === false) {
+            // an ephemeral key would differ between instances and restarts, signing users out
+            if (!this.appSettings.stateProtection) {
+                throw new Error(ConfigurationErrorMessages.NO_SESSION_ENCRYPTION_KEY);
+            }
+
+            /**
+             * In session-less mode, session data (i.e. signed-in account and in-flight auth
+             * requests) is kept in an encrypted cookie, which is exposed as req.session
+             */
+            appRouter.use(new CookieSessionManager(this.sessionKeys, options.cookieSessionOptions).initialize());
+
+            if (this.appSettings.authRoutes.backChannelLogout) {
+                Logger.logWarning(InfoMessages.BACK_CHANNEL_LOGOUT_WITHOUT_SESSION);
+            }
+        }
+
         // handle redirect
-        appRouter.get(UrlUtils.getPathFromUrl(this.appSettings.authRoutes.redirect), this.handleRedirect());
+        appRouter.get(UrlUtils.getPathFromUrl(this.appSettings.authRoutes.redirect), this.handleRedirect(options?.handleRedirectOptions));
+
+        if (options?.responseMode === ResponseMode.FORM_POST) {
+            this.responseMode = ResponseMode.FORM_POST;
+
+            /**
+             * With form_post response mode, Azure AD posts the response to the redirect route instead
+             * of appending it to the query string. For more information, visit:
+             * https://docs.microsoft.com/azure/active-directory/develop/v2-oauth2-auth-code-flow#request-an-authorization-code
+             */
+            appRouter.post(
+                UrlUtils.getPathFromUrl(this.appSettings.authRoutes.redirect),
+                express.urlencoded({ extended: false }),
+                this.resubmitCrossSitePost(),
+                this.handleRedirect(options?.handleRedirectOptions)
+            );
+        }
 
         if (this.appSettings.authRoutes.frontChannelLogout) {
             /**
              * Expose front-channel logout route. For more information, visit: 
              * https://docs.microsoft.com/azure/active-directory/develop/v2-protocols-oidc#single-sign-out
              */
-            appRouter.get(this.appSettings.authRoutes.frontChannelLogout, (req, res, next) => {
-                req.session.destroy(() => {
-                    res.sendStatus(200);
-                });
-            });
+            appRouter.get(this.appSettings.authRoutes.frontChannelLogout, this.handleFrontChannelLogout());
+        }
+
+        if (this.appSettings.authRoutes.backChannelLogout) {
+            if (options?.sessionStoreAdapter) {
+                this.sessionStoreAdapter = options.sessionStoreAdapter;
+            }
+
+            /**
+             * Expose back-channel logout route. For more information, visit:
+             * https://openid.net/specs/openid-connect-backchannel-1_0.html
+             */
+            appRouter.post(
+                this.appSettings.authRoutes.backChannelLogout,
+                express.urlencoded({ extended: false }),
+                this.handleBackChannelLogout()
+            );
         }
 
         return appRouter;
@@ -141,56 +256,55 @@ export class AuthProvider {
      * @returns {RequestHandler}
      */
     signIn = (options?: SignInOptions): RequestHandler => {
+        this.validateRedirectOptions(options.successRedirect, options.failureRedirect);
+
         return (req: Request, res: Response, next: NextFunction): Promise<void> => {
-            /**
-             * Request Configuration
-             * We manipulate these three request objects below
-             * to acquire a token with the appropriate claims
-             */
-            if (!req.session["authCodeRequest"]) {
-                req.session.authCodeRequest = {
-                    authority: "",
-                    scopes: [],
-                    state: {},
-                    redirectUri: "",
-                } as AuthorizationUrlRequest;
-            }
-
-            if (!req.session["tokenRequest"]) {
-                req.session.tokenRequest = {
-                    authority: "",
-                    scopes: [],
-                    redirectUri: "",
-                    code: "",
-                } as AuthorizationCodeRequest;
-            }
-
-            // signed-in user's account
-            if (!req.session["account"]) {
-                req.session.account = {
-                    homeAccountId: "",
-                    environment: "",
-                    tenantId: "",
-                    username: "",
-                    idTokenClaims: {},
-                } as AccountInfo;
-            }
+            this.initializeSessionRequests(req);
 
             // random GUID for csrf protection
             req.session.nonce = this.cryptoProvider.createNewGuid();
-            
-            // TODO: encrypt state parameter 
-            const state = this.cryptoProvider.base64Encode(
-                JSON.stringify({
-                    stage: AppStages.SIGN_IN,
-                    path: options.successRedirect,
-                    nonce: req.session.nonce,
-                })
-            );
+
+            // deep links can be preserved through sign-in via returnTo parameter
+            const returnTo = req.query[RedirectConstants.RETURN_TO] as string;
+
+            if (returnTo && !this.isRedirectAllowed(returnTo)) {
+                Logger.logWarning(`${ErrorMessages.REDIRECT_NOT_ALLOWED} ${RedirectConstants.RETURN_TO}`);
+            }
+
+            const state = this.encodeState({
+                stage: AppStages.SIGN_IN,
+                path: returnTo && this.isRedirectAllowed(returnTo) ? returnTo : options.successRedirect,
+                failurePath: options.failureRedirect,
+                nonce: req.session.nonce,
+            });
+
+            // B2C user-flow can be chosen per request among the policies in settings
+            const requestedPolicy = req.query[B2CConstants.POLICY] as string;
+            const isPolicyAllowed = !!requestedPolicy && Object.keys(this.appSettings.b2cPolicies || {}).includes(requestedPolicy);
+
+            if (requestedPolicy && !isPolicyAllowed) {
+                Logger.logWarning(`${ConfigurationErrorMessages.NO_B2C_POLICY} ${requestedPolicy}`);
+            }
+
+            const policy = isPolicyAllowed ? requestedPolicy : options.policy;
+
+            let extraScopesToConsent: string[];
+
+            try {
+                /**
+                 * Ask consent for scopes of remote resources up front, so that users do not have to
+                 * go through another redirect when a token is acquired for the first time
+                 */
+                extraScopesToConsent = options.extraScopesToConsent ||
+                    this.getScopesForResources(options.resourcesToConsent || Object.keys(this.appSettings.remoteResources || {}));
+            } catch (error) {
+                return Promise.resolve(next(error));
+            }
 
             const params: AuthCodeParams = {
-                authority: this.msalConfig.auth.authority,
+                authority: policy ? this.getPolicyAuthority(policy) : this.msalConfig.auth.authority,
                 scopes: OIDC_DEFAULT_SCOPES,
+                extraScopesToConsent: extraScopesToConsent,
                 state: state,
                 redirect: UrlUtils.ensureAbsoluteUrl(req, this.appSettings.authRoutes.redirect),
                 prompt: PromptValue.SELECT_ACCOUNT,
@@ -202,12 +316,96 @@ export class AuthProvider {
     };
 
     /**
-     * Initiate sign out and destroy the session
+     * Initiates the B2C edit profile user-flow
+     * @param {UserFlowOptions} options: options to modify edit profile request
+     * @returns {RequestHandler}
+     */
+    editProfile = (options?: UserFlowOptions): RequestHandler => {
+        const policy = options.policy || B2CPolicyNames.EDIT_PROFILE;
+        this.validateRedirectOptions(options.successRedirect);
+
+        if (!this.appSettings.b2cPolicies || !this.appSettings.b2cPolicies[policy]) {
+            throw new Error(`${ConfigurationErrorMessages.NO_B2C_POLICY} ${policy}`);
+        }
+
+        return (req: Request, res: Response, next: NextFunction): Promise<void> => {
+            return this.initiateUserFlow(req, res, next, AppStages.EDIT_PROFILE, policy, options.successRedirect);
+        }
+    };
+
+    /**
+     * Initiates the B2C password reset user-flow
+     * @param {UserFlowOptions} options: options to modify password reset request
+     * @returns {RequestHandler}
+     */
+    resetPassword = (options?: UserFlowOptions): RequestHandler => {
+        const policy = options.policy || B2CPolicyNames.RESET_PASSWORD;
+        this.validateRedirectOptions(options.successRedirect);
+
+        if (!this.appSettings.b2cPolicies || !this.appSettings.b2cPolicies[policy]) {
+            throw new Error(`${ConfigurationErrorMessages.NO_B2C_POLICY} ${policy}`);
+        }
+
+        return (req: Request, res: Response, next: NextFunction): Promise<void> => {
+            return this.initiateUserFlow(req, res, next, AppStages.RESET_PASSWORD, policy, options.successRedirect);
+        }
+    };
+
+    /**
+     * Initiates incremental consent for a given set of remote resources,
+     * and acquires a token for the first resource in the set
+     * @param {ConsentOptions} options: options to modify consent request
+     * @returns {RequestHandler}
+     */
+    consent = (options: ConsentOptions): RequestHandler => {
+        this.validateRedirectOptions(options.successRedirect, options.failureRedirect);
+
+        return (req: Request, res: Response, next: NextFunction): Promise<void> => {
+            let scopes: string[];
+            let extraScopesToConsent: string[];
+
+            try {
+                const [firstResource, ...otherResources] = options.resources;
+                scopes = this.getScopesForResources([firstResource]);
+                extraScopesToConsent = this.getScopesForResources(otherResources);
+            } catch (error) {
+                return Promise.resolve(next(error));
+            }
+
+            this.initializeSessionRequests(req);
+
+            // random GUID for csrf protection
+            req.session.nonce = this.cryptoProvider.createNewGuid();
+
+            const state = this.encodeState({
+                stage: AppStages.CONSENT,
+                path: options.successRedirect,
+                failurePath: options.failureRedirect,
+                nonce: req.session.nonce,
+            });
+
+            const params: AuthCodeParams = {
+                authority: this.msalConfig.auth.authority,
+                scopes: scopes,
+                extraScopesToConsent: extraScopesToConsent,
+                state: state,
+                redirect: UrlUtils.ensureAbsoluteUrl(req, this.appSettings.authRoutes.redirect),
+                account: req.session.account,
+            };
+
+            return this.getAuthCode(req, res, next, params);
+        }
+    };
+
+    /**
+     * Initiate sign out, remove the user's account from token cache and destroy the session
      * @param options: options to modify logout request 
      * @returns {RequestHandler}
      */
     signOut = (options?: SignOutOptions): RequestHandler => {
-        return (req: Request, res: Response, next: NextFunction): void => {
+        this.validateRedirectOptions(options.successRedirect, options.failureRedirect);
+
+        return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
             const postLogoutRedirectUri = UrlUtils.ensureAbsoluteUrl(req, options.successRedirect);
 
             /**
@@ -216,10 +414,34 @@ export class AuthProvider {
              * (AAD) https://docs.microsoft.com/azure/active-directory/develop/v2-protocols-oidc#send-a-sign-out-request
              * (B2C) https://docs.microsoft.com/azure/active-directory-b2c/openid-connect#send-a-sign-out-request
              */
-            const logoutURI = `${this.msalConfig.auth.authority}/oauth2/v2.0/logout?post_logout_redirect_uri=${postLogoutRedirectUri}`;
+            let logoutURI = `${this.msalConfig.auth.authority}/oauth2/v2.0/logout?post_logout_redirect_uri=${encodeURIComponent(postLogoutRedirectUri)}`;
+
+            // login_hint optional claim lets the user skip the account picker during sign-out
+            const logoutHint = (req.session.account?.idTokenClaims as IdTokenClaims)?.login_hint;
+
+            if (logoutHint) {
+                logoutURI += `&logout_hint=${encodeURIComponent(logoutHint)}`;
+            }
+
+            try {
+                await this.removeAccountFromCache(req.session.account);
+            } catch (error) {
+                Logger.logError(ErrorMessages.ACCOUNT_NOT_REMOVED);
+
+                if (options.failureRedirect) {
+                    return res.redirect(options.failureRedirect);
+                }
+
+                return next(error);
+            }
 
             req.session.isAuthenticated = false;
 
+            if (this.appSettings.authRoutes.backChannelLogout) {
+                this.sessionStoreAdapter.removeSession(req.sessionID)
+                    .catch(() => Logger.logError(ErrorMessages.SESSION_NOT_TERMINATED));
+            }
+
             req.session.destroy(() => {
                 res.redirect(logoutURI);
             });
@@ -228,35 +450,89 @@ export class AuthProvider {
 
     /**
      * Middleware that handles redirect depending on request state
-     * There are basically 2 stages: sign-in and acquire token
+     * There are basically 2 stages: sign-in (incl. B2C user-flows) and acquire token
      * @param {HandleRedirectOptions} options: options to modify this middleware
      * @returns {RequestHandler}
      */
     private handleRedirect = (options?: HandleRedirectOptions): RequestHandler => {
         return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-            if (req.query.state) {
-                const state = JSON.parse(this.cryptoProvider.base64Decode(req.query.state as string));
+            // response parameters are in the body when form_post response mode is used
+            const params = this.getRedirectParams(req);
+
+            if (params.state) {
+                let state: State;
+
+                try {
+                    state = this.decodeState(params.state);
+                } catch (error) {
+                    Logger.logError(error.message);
+                    return res.redirect(this.appSettings.authRoutes.unauthorized);
+                }
+
+                if (!req.session.nonce) {
+                    // nonce is consumed after the first redirect, so this state was used before
+                    Logger.logError(ErrorMessages.STATE_REPLAYED);
+                    res.redirect(this.appSettings.authRoutes.unauthorized);
+                } else if (state.nonce === req.session.nonce) {
+                    // consume the nonce so that the state cannot be replayed
+                    delete req.session.nonce;
+
+                    /**
+                     * B2C sign-in user-flows return this error when the user clicks on "forgot password".
+                     * In that case, initiate the password reset user-flow and bring the user back afterwards.
+                     * For more information, visit: https://docs.microsoft.com/azure/active-directory-b2c/add-password-reset-policy
+                     */
+                    if (params.error_description && params.error_description.includes(ErrorCodes[90118])) {
+                        return this.initiateUserFlow(req, res, next, AppStages.RESET_PASSWORD, B2CPolicyNames.RESET_PASSWORD, state.path);
+                    }
+
+                    // authorization server may respond with an error instead of a code e.g. when user cancels
+                    const authError = this.getAuthorizationError(params);
+
+                    if (authError) {
+                        return this.handleAuthorizationError(req, res, next, authError, state, options);
+                    }
+
+                    if (!params.code) {
+                        Logger.logError(ErrorMessages.AUTH_CODE_NOT_OBTAINED);
+                        return this.redirectIfAllowed(res, state.failurePath || this.appSettings.authRoutes.error);
+                    }
+
+                    // auth code cannot be redeemed without the PKCE verifier it was requested with
+                    if (!req.session.tokenRequest || !req.session.tokenRequest.codeVerifier) {
+                        Logger.logError(ErrorMessages.CODE_VERIFIER_NOT_FOUND);
+                        return res.redirect(this.appSettings.authRoutes.unauthorized);
+                    }
 
-                // check if nonce matches
-                if (state.nonce === req.session.nonce) {
                     switch (state.stage) {
-                        case AppStages.SIGN_IN: {
+                        case AppStages.SIGN_IN:
+                        case AppStages.EDIT_PROFILE:
+                        case AppStages.RESET_PASSWORD: {
                             // token request should have auth code
-                            req.session.tokenRequest.code = req.query.code as string;
+                            req.session.tokenRequest.code = params.code;
 
                             try {
                                 // exchange auth code for tokens
                                 const tokenResponse = await this.msalClient.acquireTokenByCode(req.session.tokenRequest);
 
                                 try {
-                                    const isIdTokenValid = await this.tokenValidator.validateIdToken(tokenResponse.idToken);
+                                    // id token must carry the nonce sent in the authorization request
+                                    const isIdTokenValid = await this.tokenValidator.validateIdToken(tokenResponse.idToken, state.nonce);
 
                                     if (isIdTokenValid) {
                                         // assign session variables
                                         req.session.account = tokenResponse.account;
                                         req.session.isAuthenticated = true;
 
-                                        res.redirect(state.path);
+                                        // used for validating front-channel logout requests
+                                        req.session.sid = (tokenResponse.idTokenClaims as IdTokenClaims).sid;
+                                        req.session.iss = (tokenResponse.idTokenClaims as IdTokenClaims).iss;
+
+                                        if (this.appSettings.authRoutes.backChannelLogout) {
+                                            await this.indexSession(req, tokenResponse.idTokenClaims as IdTokenClaims);
+                                        }
+
+                                        this.redirectIfAllowed(res, state.path);
                                     } else {
                                         Logger.logError(ErrorMessages.INVALID_TOKEN);
                                         res.redirect(this.appSettings.authRoutes.unauthorized);
@@ -272,16 +548,34 @@ export class AuthProvider {
                             break;
                         }
 
-                        case AppStages.ACQUIRE_TOKEN: {
+                        case AppStages.ACQUIRE_TOKEN:
+                        case AppStages.CONSENT: {
                             // get the name of the resource associated with scope
                             const resourceName = this.getResourceNameFromScopes(req.session.tokenRequest.scopes);
 
-                            req.session.tokenRequest.code = req.query.code as string
+                            req.session.tokenRequest.code = params.code
 
                             try {
-                                const tokenResponse = await this.msalClient.acquireTokenByCode(req.session.tokenRequest);
-                                req.session.remoteResources[resourceName].accessToken = tokenResponse.accessToken;
-                                res.redirect(state.path);
+                                // tokens are added to the signed-in user's cache partition
+                                const tokenResponse = await this.runWithCachePartition(
+                                    req.session.account?.homeAccountId,
+                                    () => this.msalClient.acquireTokenByCode(req.session.tokenRequest)
+                                );
+
+                                if (!req.session.remoteResources) {
+                                    req.session.remoteResources = {};
+                                }
+
+                                req.session.remoteResources[resourceName] = {
+                                    ...this.appSettings.remoteResources[resourceName],
+                                    ...req.session.remoteResources[resourceName],
+                                    accessToken: tokenResponse.accessToken,
+                                };
+
+                                // claims challenge for this resource is now satisfied
+                                this.removeClaimsChallenge(req, resourceName);
+
+                                this.redirectIfAllowed(res, state.path);
                             } catch (error) {
                                 Logger.logError(ErrorMessages.TOKEN_ACQUISITION_FAILED);
                                 next(error);
@@ -305,186 +599,509 @@ export class AuthProvider {
         }
     };
 
-    // ========== MIDDLEWARE ===========
+    /**
+     * Session cookies with SameSite=Lax (or Strict) are not sent with the cross-site POST that
+     * Azure AD makes in form_post response mode. If the session cannot be found, this middleware
+     * posts the response again from the app's own origin, so that the session cookie is sent along.
+     * Alternatively, configure the session cookie with SameSite=None and Secure attributes.
+     * @returns {RequestHandler}
+     */
+    private resubmitCrossSitePost = (): RequestHandler => {
+        return (req: Request, res: Response, next: NextFunction): void => {
+            if ((req.session && req.session.nonce) || !req.body || req.body[FormPostConstants.RESUBMIT_FIELD]) {
+                return next();
+            }
+
+            Logger.logWarning(InfoMessages.FORM_POST_RESUBMITTED);
+
+            const fields = Object.keys(req.body)
+                .map((key) => `<input type="hidden" name="${UrlUtils.escapeHtml(key)}" value="${UrlUtils.escapeHtml(req.body[key])}" />`)
+                .join("");
+
+            res.set("Cache-Control", "no-store");
+            res.type("html").send(
+                `<html><body onload="document.forms[0].submit()">` +
+                `<form method="post" action="${UrlUtils.escapeHtml(req.originalUrl)}">` +
+                `${fields}<input type="hidden" name="${FormPostConstants.RESUBMIT_FIELD}" value="true" />` +
+                `<noscript><input type="submit" value="Continue" /></noscript>` +
+                `</form></body></html>`
+            );
+        }
+    };
 
     /**
-     * Middleware that gets tokens via acquireToken*
-     * @param {TokenRequestOptions} options: options to modify this middleware
+     * Middleware that handles front-channel logout requests. The session is only ended if
+     * the sid and iss parameters of the request match those of the signed-in user
      * @returns {RequestHandler}
      */
-    getToken = (options: TokenRequestOptions): RequestHandler => {
+    private handleFrontChannelLogout = (): RequestHandler => {
         return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-            // get scopes for token request
-            const scopes = options.resource.scopes;
+            res.set("Cache-Control", "no-store");
 
-            const resourceName = this.getResourceNameFromScopes(scopes)
+            const sid = req.query.sid as string;
+            const iss = req.query.iss as string;
 
-            if (!req.session.remoteResources) {
-                req.session.remoteResources = {};
+            if (StringUtils.isEmpty(sid) || StringUtils.isEmpty(iss)) {
+                Logger.logError(ErrorMessages.LOGOUT_PARAMS_NOT_FOUND);
+                res.sendStatus(400);
+                return;
             }
 
-            req.session.remoteResources = {
-                [resourceName]: {
-                    ...this.appSettings.remoteResources[resourceName],
-                    accessToken: null,
-                } as Resource
-            };
-
-            try {
-                const silentRequest: SilentFlowRequest = {
-                    account: req.session.account,
-                    scopes: scopes,
-                };
-
-                // acquire token silently to be used in resource call
-                const tokenResponse = await this.msalClient.acquireTokenSilent(silentRequest);
+            if (!req.session || !req.session.isAuthenticated) {
+                // nothing to end
+                res.sendStatus(200);
+                return;
+            }
 
-                // In B2C scenarios, sometimes an access token is returned empty.
-                // In that case, we will acquire token interactively instead.
-                if (StringUtils.isEmpty(tokenResponse.accessToken)) {
-                    Logger.logError(ErrorMessages.TOKEN_NOT_FOUND);
-                    throw new InteractionRequiredAuthError(ErrorMessages.INTERACTION_REQUIRED);
-                }
+            if (sid !== req.session.sid || iss !== req.session.iss) {
+                Logger.logError(ErrorMessages.LOGOUT_PARAMS_MISMATCH);
+                res.sendStatus(403);
+                return;
+            }
 
-                req.session.remoteResources[resourceName].accessToken = tokenResponse.accessToken;
-                next();
+            try {
+                await this.removeAccountFromCache(req.session.account);
             } catch (error) {
-                // in case there are no cached tokens, initiate an interactive call
-                if (error instanceof InteractionRequiredAuthError) {
-                    const state = this.cryptoProvider.base64Encode(
-                        JSON.stringify({
-                            stage: AppStages.ACQUIRE_TOKEN,
-                            path: req.originalUrl,
-                            nonce: req.session.nonce,
-                        })
-                    );
-
-                    const params: AuthCodeParams = {
-                        authority: this.msalConfig.auth.authority,
-                        scopes: scopes,
-                        state: state,
-                        redirect: UrlUtils.ensureAbsoluteUrl(req, this.appSettings.authRoutes.redirect),
-                        account: req.session.account,
-                    };
-
-                    // initiate the first leg of auth code grant to get token
-                    return this.getAuthCode(req, res, next, params);
-                } else {
-                    next(error);
-                }
+                Logger.logError(ErrorMessages.ACCOUNT_NOT_REMOVED);
+            }
+
+            if (this.appSettings.authRoutes.backChannelLogout) {
+                this.sessionStoreAdapter.removeSession(req.sessionID)
+                    .catch(() => Logger.logError(ErrorMessages.SESSION_NOT_TERMINATED));
             }
+
+            req.session.destroy(() => {
+                res.sendStatus(200);
+            });
         }
     };
 
     /**
-     * Middleware that gets tokens via OBO flow. Used in web API scenarios
-     * @param {TokenRequestOptions} options: options to modify this middleware
+     * Middleware that handles back-channel logout requests. Validates the logout token
+     * and terminates all sessions of the user (or the session) that it refers to
      * @returns {RequestHandler}
      */
-    getTokenOnBehalf = (options: TokenRequestOptions): RequestHandler => {
+    private handleBackChannelLogout = (): RequestHandler => {
         return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-            const authHeader = req.headers.authorization;
+            res.set("Cache-Control", "no-store");
 
-            // get scopes for token request
-            const scopes = options.resource.scopes;
-            const resourceName = this.getResourceNameFromScopes(scopes);
+            const logoutToken = req.body ? req.body[LogoutConstants.LOGOUT_TOKEN] : null;
+            const logoutTokenClaims = await this.tokenValidator.validateLogoutToken(logoutToken);
 
-            const oboRequest: OnBehalfOfRequest = {
-                oboAssertion: authHeader.split(" ")[1],
-                scopes: scopes,
+            if (!logoutTokenClaims) {
+                Logger.logError(ErrorMessages.INVALID_LOGOUT_TOKEN);
+                res.sendStatus(400);
+                return;
             }
 
+            const { sid, sub } = logoutTokenClaims as LogoutTokenClaims;
+
             try {
-                const tokenResponse = await this.msalClient.acquireTokenOnBehalfOf(oboRequest);
+                const sessionIds = new Set([
+                    ...(sid ? await this.sessionStoreAdapter.getSessions(LogoutConstants.SID_KEY_PREFIX + sid) : []),
+                    ...(sub ? await this.sessionStoreAdapter.getSessions(LogoutConstants.SUB_KEY_PREFIX + sub) : []),
+                ]);
 
-                // as OBO is commonly used in middle-tier web APIs without sessions, attach AT to req
-                req["locals"] = {
-                    [resourceName]: {
-                        accessToken: tokenResponse.accessToken
-                    }
+                // session store is attached to each request by express-session
+                const sessionStore: Store = req["sessionStore"];
+
+                for (const sessionId of Array.from(sessionIds)) {
+                    await new Promise<void>((resolve, reject) => {
+                        sessionStore.destroy(sessionId, (error) => error ? reject(error) : resolve());
+                    });
+
+                    await this.sessionStoreAdapter.removeSession(sessionId);
                 }
 
-                next();
+                Logger.logInfo(`${InfoMessages.SESSIONS_TERMINATED} ${sessionIds.size}`);
+                res.sendStatus(200);
             } catch (error) {
-                next(error);
+                Logger.logError(ErrorMessages.SESSION_NOT_TERMINATED);
+                res.sendStatus(501);
             }
         }
-    }
+    };
 
-    // ============== GUARDS ===============
+    // ========== MIDDLEWARE ===========
 
     /**
-     * Check if authenticated in session
-     * @param {GuardOptions} options: options to modify this middleware
+     * Middleware that gets tokens via acquireToken*
+     * @param {TokenRequestOptions} options: options to modify this middleware
      * @returns {RequestHandler}
      */
-    isAuthenticated = (options?: GuardOptions): RequestHandler => {
-        return (req: Request, res: Response, next: NextFunction): void => {
-            if (req.session) {
-                if (!req.session.isAuthenticated) {
-                    Logger.logError(ErrorMessages.NOT_PERMITTED);
-                    return res.redirect(this.appSettings.authRoutes.unauthorized);
-                }
+    getToken = (options: TokenRequestOptions): RequestHandler => {
+        return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+            // get scopes for token request
+            const scopes = options.resource.scopes;
 
+            const resourceName = this.getResourceNameFromScopes(scopes)
+
+            this.initializeRemoteResource(req, resourceName);
+
+            // claims requested explicitly or via a challenge from the resource
+            const claims = options.claims || this.getClaimsChallenge(req, resourceName);
+
+            try {
+                req.session.remoteResources[resourceName].accessToken = await this.acquireTokenSilently(req, options.resource, claims, options.skipCache);
+                this.removeClaimsChallenge(req, resourceName);
                 next();
-            } else {
-                Logger.logError(ErrorMessages.SESSION_NOT_FOUND);
-                res.redirect(this.appSettings.authRoutes.unauthorized);
+            } catch (error) {
+                // in case there are no cached tokens, initiate an interactive call
+                if (error instanceof InteractionRequiredAuthError) {
+                    return this.acquireTokenInteractively(req, res, next, scopes, undefined, claims);
+                } else {
+                    next(error);
+                }
             }
         }
     };
 
     /**
-     * Receives access token in req authorization header
-     * and validates it using the jwt.verify
-     * @param {GuardOptions} options: options to modify this middleware
+     * Middleware that gets tokens for multiple resources in parallel via acquireToken*.
+     * If any of the resources requires interaction, consent for all of them
+     * is obtained in a single round trip
+     * @param {MultipleTokenRequestOptions} options: options to modify this middleware
      * @returns {RequestHandler}
      */
-    isAuthorized = (options?: GuardOptions): RequestHandler => {
+    getTokens = (options: MultipleTokenRequestOptions): RequestHandler => {
         return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-            const accessToken = req.headers.authorization.split(" ")[1];
+            const requests = options.resources.map((resource: Resource) => {
+                const resourceName = this.getResourceNameFromScopes(resource.scopes);
+                this.initializeRemoteResource(req, resourceName);
 
-            if (req.headers.authorization) {
-                if (!(await this.tokenValidator.verifyAccessTokenSignature(accessToken, `${req.baseUrl}${req.path}`))) {
-                    Logger.logError(ErrorMessages.INVALID_TOKEN);
-                    return res.redirect(this.appSettings.authRoutes.unauthorized);
-                }
+                const claims = this.getClaimsChallenge(req, resourceName);
 
-                next();
-            } else {
-                Logger.logError(ErrorMessages.TOKEN_NOT_FOUND);
-                res.redirect(this.appSettings.authRoutes.unauthorized);
+                return this.acquireTokenSilently(req, resource, claims, options.skipCache)
+                    .then((accessToken) => ({ resourceName, scopes: resource.scopes, claims, accessToken, error: null }))
+                    .catch((error) => ({ resourceName, scopes: resource.scopes, claims, accessToken: null, error }));
+            });
+
+            const results = await Promise.all(requests);
+
+            results
+                .filter((result) => !result.error)
+                .forEach((result) => {
+                    req.session.remoteResources[result.resourceName].accessToken = result.accessToken;
+                    this.removeClaimsChallenge(req, result.resourceName);
+                });
+
+            const failedResult = results.find((result) => result.error && !(result.error instanceof InteractionRequiredAuthError));
+
+            if (failedResult) {
+                return next(failedResult.error);
+            }
+
+            const interactionResults = results.filter((result) => result.error);
+
+            if (interactionResults.length === 0) {
+                return next();
             }
+
+            // the first resource is redeemed after redirect, while the rest are consented upfront
+            // so that their tokens can be acquired silently once the user returns to this route
+            const extraScopesToConsent = Array.from(new Set([].concat(
+                ...interactionResults.slice(1).map((result) => result.scopes)
+            )));
+
+            return this.acquireTokenInteractively(req, res, next, interactionResults[0].scopes, extraScopesToConsent, interactionResults[0].claims);
         }
     };
 
     /**
-     * Checks if the user has access for this route, defined in access matrix
-     * @param {GuardOptions} options: options to modify this middleware
-     * @returns {RequestHandler}
+     * Stores the claims challenge in a WWW-Authenticate header returned by a web API
+     * (e.g. due to CAE or conditional access), so that the next call to getToken or
+     * getTokens for this resource acquires a token satisfying the challenge
+     * @param {Request} req: express request object
+     * @param {string} resourceName: name of the resource in remoteResources
+     * @param {string} wwwAuthenticateHeader: value of WWW-Authenticate response header
+     * @returns {boolean} whether a claims challenge was found
      */
-    hasAccess = (options?: GuardOptions): RequestHandler => {
-        return async (req: Request, res: Response, next: NextFunction): Promise<any> => {
-            if (req.session && this.appSettings.accessMatrix) {
+    handleClaimsChallenge = (req: Request, resourceName: string, wwwAuthenticateHeader: string): boolean => {
+        const claims = FetchManager.getClaimsChallenge(wwwAuthenticateHeader);
 
-                const checkFor = options.accessRule.hasOwnProperty(AccessConstants.GROUPS) ? AccessConstants.GROUPS : AccessConstants.ROLES;
+        if (!claims) {
+            return false;
+        }
 
-                switch (checkFor) {
-                    case AccessConstants.GROUPS:
+        Logger.logInfo(`${InfoMessages.CLAIMS_CHALLENGE_RECEIVED} ${resourceName}`);
+
+        if (!req.session.claimsChallenges) {
+            req.session.claimsChallenges = {};
+        }
+
+        req.session.claimsChallenges[resourceName] = claims;
+        return true;
+    };
+
+    /**
+     * Middleware that gets tokens via OBO flow. Used in web API scenarios
+     * @param {TokenRequestOptions} options: options to modify this middleware
+     * @returns {RequestHandler}
+     */
+    getTokenOnBehalf = (options: TokenRequestOptions): RequestHandler => {
+        return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+            // authentication scheme is case-insensitive (RFC 7235)
+            const bearerMatch = (req.headers.authorization || "").match(/^Bearer\s+(.+)$/i);
+
+            if (!bearerMatch) {
+                Logger.logError(ErrorMessages.TOKEN_NOT_FOUND);
+                return this.sendBearerChallenge(res, 401, {
+                    errorDescription: ErrorMessages.TOKEN_NOT_FOUND,
+                });
+            }
+
+            const oboAssertion = bearerMatch[1].trim();
+
+            // the incoming token must be issued for this web API before it is exchanged
+            if (!(await this.tokenValidator.verifyAccessTokenSignature(oboAssertion, `${req.baseUrl}${req.path}`, req.method))) {
+                Logger.logError(ErrorMessages.INVALID_TOKEN);
+                return this.sendBearerChallenge(res, 401, {
+                    error: BearerChallengeConstants.INVALID_TOKEN,
+                    errorDescription: ErrorMessages.INVALID_TOKEN,
+                });
+            }
+
+            // get scopes for token request
+            const scopes = options.resource.scopes;
+            const resourceName = this.getResourceNameFromScopes(scopes);
+
+            try {
+                const accessToken = await this.acquireTokenOnBehalfOf(oboAssertion, scopes, options.skipCache);
+
+                // as OBO is commonly used in middle-tier web APIs without sessions, attach AT to req
+                req.locals = {
+                    ...req.locals,
+                    [resourceName]: {
+                        ...options.resource,
+                        accessToken: accessToken,
+                    },
+                };
+
+                next();
+            } catch (error) {
+                next(error);
+            }
+        }
+    }
+
+    /**
+     * Middleware that gets app-only tokens via client credentials flow,
+     * e.g. for admin routes calling web APIs with application permissions
+     * @param {TokenRequestOptions} options: options to modify this middleware
+     * @returns {RequestHandler}
+     */
+    getAppToken = (options: TokenRequestOptions): RequestHandler => {
+        return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+            const resourceName = this.getResourceNameFromScopes(options.resource.scopes);
+
+            try {
+                const accessToken = await this.acquireAppToken(options);
+
+                // app tokens are not tied to a user, so they are attached to req instead of session
+                req.locals = {
+                    ...req.locals,
+                    [resourceName]: {
+                        ...options.resource,
+                        accessToken: accessToken,
+                    },
+                };
+
+                next();
+            } catch (error) {
+                next(error);
+            }
+        }
+    };
+
+    // ========== PROGRAMMATIC ===========
+
+    /**
+     * Acquires an app-only token via client credentials flow, e.g. for background jobs.
+     * Tokens are served from MSAL token cache until they expire
+     * @param {TokenRequestOptions} options: resource to acquire the token for
+     * @returns {Promise}
+     */
+    acquireAppToken = async (options: TokenRequestOptions): Promise<string> => {
+        const clientCredentialRequest: ClientCredentialRequest = {
+            scopes: [this.getDefaultScope(options.resource)],
+            skipCache: !!options.skipCache,
+        };
+
+        const tokenResponse = await this.runWithCachePartition(
+            CacheConstants.APP_PARTITION_KEY,
+            () => this.msalClient.acquireTokenByClientCredential(clientCredentialRequest)
+        );
+
+        if (!tokenResponse || StringUtils.isEmpty(tokenResponse.accessToken)) {
+            Logger.logError(`${ErrorMessages.APP_TOKEN_NOT_OBTAINED} ${options.resource.endpoint}`);
+            throw new Error(`${ErrorMessages.APP_TOKEN_NOT_OBTAINED} ${options.resource.endpoint}`);
+        }
+
+        return tokenResponse.accessToken;
+    };
+
+    // ============== GUARDS ===============
+
+    /**
+     * Check if authenticated in session
+     * @param {GuardOptions} options: options to modify this middleware
+     * @returns {RequestHandler}
+     */
+    isAuthenticated = (options?: GuardOptions): RequestHandler => {
+        return (req: Request, res: Response, next: NextFunction): void => {
+            if (req.session) {
+                if (!req.session.isAuthenticated) {
+                    Logger.logError(ErrorMessages.NOT_PERMITTED);
+                    return res.redirect(this.appSettings.authRoutes.unauthorized);
+                }
+
+                next();
+            } else {
+                Logger.logError(ErrorMessages.SESSION_NOT_FOUND);
+                res.redirect(this.appSettings.authRoutes.unauthorized);
+            }
+        }
+    };
+
+    /**
+     * Receives access token in req authorization header
+     * and validates it using the jwt.verify. Proof-of-possession
+     * tokens are accepted in signed HTTP requests (PoP scheme)
+     * @param {GuardOptions} options: options to modify this middleware
+     * @returns {RequestHandler}
+     */
+    isAuthorized = (options?: GuardOptions): RequestHandler => {
+        return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+            const protectedRoute = `${req.baseUrl}${req.path}`;
+            const scope = this.getScopesForRoute(protectedRoute, req.method);
+
+            if (req.headers.authorization) {
+                const [scheme, credential] = req.headers.authorization.split(" ");
+                const isPop = scheme?.toLowerCase() === PopConstants.AUTHORIZATION_SCHEME.toLowerCase();
+
+                const isTokenValid = isPop ?
+                    await this.tokenValidator.verifySignedHttpRequest(credential, {
+                        method: req.method,
+                        host: req.get("host"),
+                        path: protectedRoute,
+                    }, protectedRoute)
+                    : await this.tokenValidator.verifyAccessTokenSignature(credential, protectedRoute, req.method);
+
+                if (!isTokenValid) {
+                    Logger.logError(ErrorMessages.INVALID_TOKEN);
+                    return this.rejectRequest(req, res, options, 401, {
+                        error: BearerChallengeConstants.INVALID_TOKEN,
+                        errorDescription: ErrorMessages.INVALID_TOKEN,
+                        scope: scope,
+                    });
+                }
+
+                const accessToken = isPop ? (jwt.decode(credential) as SignedHttpRequestClaims).at : credential;
+
+                // challenge the client for a token with the required authentication context
+                if (options?.authContext && !this.hasAuthContext(jwt.decode(accessToken) as AccessTokenClaims, options.authContext)) {
+                    Logger.logError(`${ErrorMessages.AUTH_CONTEXT_NOT_SATISFIED} ${options.authContext}`);
+                    return this.sendBearerChallenge(res, 401, {
+                        error: BearerChallengeConstants.INSUFFICIENT_CLAIMS,
+                        errorDescription: `${ErrorMessages.AUTH_CONTEXT_NOT_SATISFIED} ${options.authContext}`,
+                        claims: this.getAuthContextClaims(options.authContext, BearerChallengeConstants.ACCESS_TOKEN),
+                    });
+                }
+
+                next();
+            } else {
+                Logger.logError(ErrorMessages.TOKEN_NOT_FOUND);
+
+                // no error code is sent if the request lacks authentication information (RFC 6750, section 3.1)
+                this.rejectRequest(req, res, options, 401, {
+                    errorDescription: ErrorMessages.TOKEN_NOT_FOUND,
+                    scope: scope,
+                });
+            }
+        }
+    };
+
+    /**
+     * Checks if the user has satisfied a Conditional Access authentication context
+     * (e.g. signed-in with MFA) in session. If not, the user is sent back to the
+     * authorization server with a claims request for the authentication context
+     * @param {string} authContext: id of the authentication context e.g. c1
+     * @returns {RequestHandler}
+     */
+    requireAuthContext = (authContext: string): RequestHandler => {
+        return (req: Request, res: Response, next: NextFunction): Promise<void> => {
+            if (!req.session || !req.session.isAuthenticated) {
+                Logger.logError(ErrorMessages.NOT_PERMITTED);
+                return Promise.resolve(res.redirect(this.appSettings.authRoutes.unauthorized));
+            }
+
+            if (this.hasAuthContext(req.session.account.idTokenClaims as IdTokenClaims, authContext)) {
+                return Promise.resolve(next());
+            }
+
+            Logger.logWarning(`${ErrorMessages.AUTH_CONTEXT_NOT_SATISFIED} ${authContext}`);
+
+            if (!this.isRedirectAllowed(req.originalUrl)) {
+                Logger.logError(ErrorMessages.REDIRECT_NOT_ALLOWED);
+                return Promise.resolve(next(new Error(ErrorMessages.REDIRECT_NOT_ALLOWED)));
+            }
+
+            this.initializeSessionRequests(req);
+
+            // random GUID for csrf protection
+            req.session.nonce = this.cryptoProvider.createNewGuid();
+
+            // the account in session is updated with the new id token after redirect
+            const state = this.encodeState({
+                stage: AppStages.SIGN_IN,
+                path: req.originalUrl,
+                nonce: req.session.nonce,
+            });
+
+            const params: AuthCodeParams = {
+                authority: this.msalConfig.auth.authority,
+                scopes: OIDC_DEFAULT_SCOPES,
+                claims: this.getAuthContextClaims(authContext, BearerChallengeConstants.ID_TOKEN),
+                state: state,
+                redirect: UrlUtils.ensureAbsoluteUrl(req, this.appSettings.authRoutes.redirect),
+                account: req.session.account,
+            };
+
+            return this.getAuthCode(req, res, next, params);
+        }
+    };
+
+    /**
+     * Checks if the user has access for this route, defined in access matrix
+     * @param {GuardOptions} options: options to modify this middleware
+     * @returns {RequestHandler}
+     */
+    hasAccess = (options?: GuardOptions): RequestHandler => {
+        return async (req: Request, res: Response, next: NextFunction): Promise<any> => {
+            if (req.session && this.appSettings.accessMatrix) {
+
+                const checkFor = options.accessRule.hasOwnProperty(AccessConstants.GROUPS) ? AccessConstants.GROUPS : AccessConstants.ROLES;
+
+                switch (checkFor) {
+                    case AccessConstants.GROUPS:
 
                         if (req.session.account.idTokenClaims[AccessConstants.GROUPS] === undefined) {
                             if (req.session.account.idTokenClaims[AccessConstants.CLAIM_NAMES] || req.session.account.idTokenClaims[AccessConstants.CLAIM_SOURCES]) {
                                 Logger.logWarning(InfoMessages.OVERAGE_OCCURRED)
-                                return await this.handleOverage(req, res, next, options.accessRule);
+                                return await this.handleOverage(req, res, next, options);
                             } else {
                                 Logger.logError(ErrorMessages.USER_HAS_NO_GROUP);
-                                return res.redirect(this.appSettings.authRoutes.unauthorized);
+                                return this.rejectRequest(req, res, options, 403, {
+                                    errorDescription: ErrorMessages.USER_HAS_NO_GROUP,
+                                });
                             }
                         } else {
                             const groups = req.session.account.idTokenClaims[AccessConstants.GROUPS];
 
                             if (!this.checkAccessRule(req.method, options.accessRule, groups, AccessConstants.GROUPS)) {
-                                return res.redirect(this.appSettings.authRoutes.unauthorized);
+                                return this.rejectRequest(req, res, options, 403, {
+                                    errorDescription: ErrorMessages.NOT_PERMITTED,
+                                });
                             }
                         }
 
@@ -494,12 +1111,16 @@ export class AuthProvider {
                     case AccessConstants.ROLES:
                         if (req.session.account.idTokenClaims[AccessConstants.ROLES] === undefined) {
                             Logger.logError(ErrorMessages.USER_HAS_NO_ROLE);
-                            return res.redirect(this.appSettings.authRoutes.unauthorized);
+                            return this.rejectRequest(req, res, options, 403, {
+                                errorDescription: ErrorMessages.USER_HAS_NO_ROLE,
+                            });
                         } else {
                             const roles = req.session.account.idTokenClaims[AccessConstants.ROLES];
 
                             if (!this.checkAccessRule(req.method, options.accessRule, roles, AccessConstants.ROLES)) {
-                                return res.redirect(this.appSettings.authRoutes.unauthorized);
+                                return this.rejectRequest(req, res, options, 403, {
+                                    errorDescription: ErrorMessages.NOT_PERMITTED,
+                                });
                             }
                         }
 
@@ -510,13 +1131,649 @@ export class AuthProvider {
                         break;
                 }
             } else {
-                res.redirect(this.appSettings.authRoutes.unauthorized);
+                Logger.logError(ErrorMessages.NOT_PERMITTED);
+                this.rejectRequest(req, res, options, req.session ? 403 : 401, {
+                    errorDescription: ErrorMessages.NOT_PERMITTED,
+                });
             }
         }
     }
 
+    /**
+     * Checks every request against the access matrix in app settings. Requests are matched to
+     * rules by path pattern and method, and denied if no rule matches under a protected prefix
+     * @param {AccessMatrixOptions} options: options to modify this middleware
+     * @returns {RequestHandler}
+     */
+    enforceAccessMatrix = (options: AccessMatrixOptions = {}): RequestHandler => {
+        return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+            const route = `${req.baseUrl}${req.path}`;
+            const guardOptions: GuardOptions = { responseType: options.responseType };
+
+            // rules are checked against the claims of the signed-in user's id token
+            const isSignedIn = !!(req.session && req.session.isAuthenticated && req.session.account && req.session.account.idTokenClaims);
+
+            const matchingRules = Object.entries(this.appSettings.accessMatrix || {})
+                .filter(([, rule]) => UrlUtils.matchesPathPattern(rule.path, route));
+
+            if (matchingRules.length === 0) {
+                const isProtected = (options.protectedPrefixes || []).some((prefix) => {
+                    const normalizedPrefix = prefix.replace(/\/+$/, "");
+                    return UrlUtils.matchesPathPattern(normalizedPrefix, route)
+                        || UrlUtils.matchesPathPattern(`${normalizedPrefix}/*`, route);
+                });
+
+                if (!isProtected) {
+                    return next();
+                }
+
+                Logger.logError(`${ErrorMessages.RULE_NOT_FOUND} ${route}`);
+                return this.rejectRequest(req, res, guardOptions, isSignedIn ? 403 : 401, {
+                    errorDescription: ErrorMessages.NOT_PERMITTED,
+                });
+            }
+
+            const matchingRule = matchingRules.find(([, rule]) => this.allowsMethod(rule, req.method));
+
+            if (!matchingRule) {
+                Logger.logError(`${ErrorMessages.METHOD_NOT_ALLOWED} ${req.method} ${route}`);
+                return this.rejectRequest(req, res, guardOptions, 403, {
+                    errorDescription: ErrorMessages.METHOD_NOT_ALLOWED,
+                });
+            }
+
+            const [ruleName, rule] = matchingRule;
+
+            if (!isSignedIn) {
+                Logger.logError(`${ErrorMessages.SESSION_NOT_FOUND} ${route}`);
+                return this.rejectRequest(req, res, guardOptions, 401, {
+                    errorDescription: ErrorMessages.NOT_PERMITTED,
+                });
+            }
+
+            let isNextCalled = false;
+
+            const onAccessChecked: NextFunction = (error?: any) => {
+                isNextCalled = true;
+
+                if (!error) {
+                    Logger.logInfo(`${InfoMessages.ACCESS_RULE_ALLOWED} ${ruleName}`);
+                }
+
+                next(error);
+            };
+
+            try {
+                // hasAccess either calls next or responds before its promise settles
+                await this.hasAccess({ ...guardOptions, accessRule: rule })(req, res, onAccessChecked);
+            } catch (error) {
+                return next(error);
+            }
+
+            if (!isNextCalled) {
+                Logger.logError(`${ErrorMessages.ACCESS_RULE_DENIED} ${ruleName}`);
+            }
+        }
+    };
+
     // ============== UTILS ===============
 
+    /**
+     * Gets the parameters of a redirect response, which are in the query string
+     * by default and in the request body when form_post response mode is used
+     * @param {Request} req: express request object
+     * @returns {Object}
+     */
+    private getRedirectParams(req: Request): RedirectParams {
+        return (req.method === "POST" ? req.body || {} : req.query) as RedirectParams;
+    };
+
+    /**
+     * Parses an OAuth 2.0 error response returned to the redirect route. For more information, visit:
+     * https://docs.microsoft.com/azure/active-directory/develop/v2-oauth2-auth-code-flow#error-response
+     * @param {Object} params: parameters of the redirect response
+     * @returns {ServerError}
+     */
+    private getAuthorizationError(params: RedirectParams): ServerError {
+        if (!params.error) {
+            return null;
+        }
+
+        const error = params.error;
+        const errorDescription = params.error_description;
+        const subError = params.suberror;
+
+        if (InteractionRequiredAuthError.isInteractionRequiredError(error, errorDescription, subError)) {
+            return new InteractionRequiredAuthError(error, errorDescription, subError);
+        }
+
+        return new ServerError(error, errorDescription, subError);
+    };
+
+    /**
+     * Handles an authorization error response, either via the custom error hook
+     * or by redirecting to the failure route for this request
+     * @param {Request} req: express request object
+     * @param {Response} res: express response object
+     * @param {NextFunction} next: express next function
+     * @param {ServerError} authError: parsed error response
+     * @param {State} state: decoded state parameter
+     * @param {HandleRedirectOptions} options: options passed to handleRedirect
+     * @returns {Promise}
+     */
+    private async handleAuthorizationError(req: Request, res: Response, next: NextFunction, authError: ServerError, state: State, options?: HandleRedirectOptions): Promise<void> {
+        if (authError.errorMessage && authError.errorMessage.includes(ErrorCodes[65001])) {
+            Logger.logError(ErrorMessages.CONSENT_REQUIRED);
+        } else {
+            Logger.logError(`${ErrorMessages.AUTHORIZATION_ERROR} ${authError.errorCode}`);
+        }
+
+        if (options && options.onError) {
+            try {
+                return await options.onError(authError, req, res, next);
+            } catch (error) {
+                return next(error);
+            }
+        }
+
+        this.redirectIfAllowed(res, state.failurePath || this.appSettings.authRoutes.error);
+    };
+
+    /**
+     * Indexes the current session by the sid and sub claims of
+     * the signed-in user, so that it can be terminated via back-channel logout
+     * @param {Request} req: express request object
+     * @param {IdTokenClaims} idTokenClaims: claims of the user's id token
+     * @returns {Promise}
+     */
+    private async indexSession(req: Request, idTokenClaims: IdTokenClaims): Promise<void> {
+        const keys = [];
+
+        if (idTokenClaims.sid) {
+            keys.push(LogoutConstants.SID_KEY_PREFIX + idTokenClaims.sid);
+        }
+
+        if (idTokenClaims.sub) {
+            keys.push(LogoutConstants.SUB_KEY_PREFIX + idTokenClaims.sub);
+        }
+
+        // index entries expire along with the session cookie, if it has an expiry
+        const cookieExpires = req.session.cookie && req.session.cookie.expires;
+        const expiresAt = cookieExpires ? Math.round(new Date(cookieExpires).getTime() / 1000) : undefined;
+
+        try {
+            await this.sessionStoreAdapter.addSession(keys, req.sessionID, expiresAt);
+        } catch (error) {
+            Logger.logError(ErrorMessages.SESSION_NOT_INDEXED);
+        }
+    };
+
+    /**
+     * Checks if a given URL is a relative path or its origin is in redirect allowlist
+     * @param {string} url: a given URL
+     * @returns {boolean}
+     */
+    private isRedirectAllowed(url: string): boolean {
+        return UrlUtils.isRedirectAllowed(url, this.appSettings.redirectAllowlist);
+    };
+
+    /**
+     * Throws if any of the given redirect URLs (e.g. successRedirect) is not allowed
+     * @param {Array} urls: redirect URLs passed to a route handler
+     * @returns {void}
+     */
+    private validateRedirectOptions(...urls: string[]): void {
+        urls.filter((url) => url !== undefined).forEach((url) => {
+            if (!this.isRedirectAllowed(url)) {
+                throw new Error(`${ConfigurationErrorMessages.INVALID_REDIRECT} ${url}`);
+            }
+        });
+    };
+
+    /**
+     * Redirects to a given URL if allowed, otherwise to the error route
+     * @param {Response} res: express response object
+     * @param {string} url: a given URL
+     * @returns {void}
+     */
+    private redirectIfAllowed(res: Response, url: string): void {
+        if (!this.isRedirectAllowed(url)) {
+            Logger.logError(`${ErrorMessages.REDIRECT_NOT_ALLOWED} ${url}`);
+            return res.redirect(this.appSettings.authRoutes.error);
+        }
+
+        res.redirect(url);
+    };
+
+    /**
+     * Removes a given account and its tokens from MSAL token cache
+     * (and hence from the persistent cache, if a cache plugin is used)
+     * @param {AccountInfo} account: signed-in user's account
+     * @returns {Promise}
+     */
+    private async removeAccountFromCache(account: AccountInfo): Promise<void> {
+        if (!account || StringUtils.isEmpty(account.homeAccountId)) {
+            return;
+        }
+
+        const tokenCache = this.msalClient.getTokenCache();
+
+        await PartitionedCachePlugin.runWithPartition(account.homeAccountId, async () => {
+            const cachedAccount = await tokenCache.getAccountByHomeId(account.homeAccountId);
+
+            if (cachedAccount) {
+                await tokenCache.removeAccount(cachedAccount);
+            }
+        });
+    };
+
+    /**
+     * Runs a given token request with the cache partition of a given user (see PartitionedCachePlugin).
+     * Silent flows read in-memory cache directly without calling the cache plugin, so the partition
+     * is loaded beforehand
+     * @param {string} partitionKey: homeAccountId of the user, or the app partition key
+     * @param {Function} callback: function that accesses the token cache
+     * @returns {Promise}
+     */
+    private runWithCachePartition<T>(partitionKey: string, callback: () => Promise<T>): Promise<T> {
+        return PartitionedCachePlugin.runWithPartition(partitionKey, async () => {
+            await this.msalClient.getTokenCache().getAllAccounts();
+            return callback();
+        });
+    };
+
+    /**
+     * Prepares the request objects in session that are
+     * used to acquire a token with the appropriate claims
+     * @param {Request} req: express request object
+     * @returns {void}
+     */
+    private initializeSessionRequests(req: Request): void {
+        if (!req.session["authCodeRequest"]) {
+            req.session.authCodeRequest = {
+                authority: "",
+                scopes: [],
+                state: {},
+                redirectUri: "",
+            } as AuthorizationUrlRequest;
+        }
+
+        if (!req.session["tokenRequest"]) {
+            req.session.tokenRequest = {
+                authority: "",
+                scopes: [],
+                redirectUri: "",
+                code: "",
+            } as AuthorizationCodeRequest;
+        }
+
+        // signed-in user's account
+        if (!req.session["account"]) {
+            req.session.account = {
+                homeAccountId: "",
+                environment: "",
+                tenantId: "",
+                username: "",
+                idTokenClaims: {},
+            } as AccountInfo;
+        }
+    };
+
+    /**
+     * Adds a remote resource to session with its access token cleared, keeping other resources intact
+     * @param {Request} req: express request object
+     * @param {string} resourceName: name of the resource in remoteResources
+     * @returns {void}
+     */
+    private initializeRemoteResource(req: Request, resourceName: string): void {
+        if (!req.session.remoteResources) {
+            req.session.remoteResources = {};
+        }
+
+        req.session.remoteResources[resourceName] = {
+            ...this.appSettings.remoteResources[resourceName],
+            accessToken: null,
+        } as Resource;
+    };
+
+    /**
+     * Acquires an access token silently for the account in session. Requesting claims
+     * or skipping cache makes MSAL refresh the token instead of returning it from cache.
+     * Proof-of-possession tokens are returned in a signed HTTP request for the resource endpoint
+     * @param {Request} req: express request object
+     * @param {Resource} resource: resource to request the token for
+     * @param {string} claims: stringified claims request e.g. from a claims challenge
+     * @param {boolean} skipCache: whether to force a token refresh
+     * @returns {Promise}
+     */
+    private async acquireTokenSilently(req: Request, resource: Resource, claims?: string, skipCache?: boolean): Promise<string> {
+        const silentRequest: PopSilentFlowRequest = {
+            account: req.session.account,
+            scopes: resource.scopes,
+            claims: claims,
+            forceRefresh: !!skipCache,
+        };
+
+        const isPop = resource.authenticationScheme === AuthenticationScheme.POP;
+
+        if (isPop) {
+            silentRequest.authenticationScheme = AuthenticationScheme.POP;
+            silentRequest.resourceRequestMethod = PopConstants.RESOURCE_REQUEST_METHOD;
+            silentRequest.resourceRequestUri = resource.endpoint;
+        }
+
+        // acquire token silently to be used in resource call
+        const tokenResponse = await this.runWithCachePartition(
+            req.session.account.homeAccountId,
+            async () => {
+                try {
+                    return await this.msalClient.acquireTokenSilent(silentRequest);
+                } catch (error) {
+                    // cached PoP token is bound to a key of another instance, so a new token is requested
+                    if (isPop && !silentRequest.forceRefresh && error.message?.startsWith(ErrorMessages.POP_KEY_NOT_FOUND)) {
+                        return this.msalClient.acquireTokenSilent({ ...silentRequest, forceRefresh: true });
+                    }
+
+                    throw error;
+                }
+            }
+        );
+
+        // In B2C scenarios, sometimes an access token is returned empty.
+        // In that case, we will acquire token interactively instead.
+        if (StringUtils.isEmpty(tokenResponse.accessToken)) {
+            Logger.logError(ErrorMessages.TOKEN_NOT_FOUND);
+            throw new InteractionRequiredAuthError(ErrorMessages.INTERACTION_REQUIRED);
+        }
+
+        return tokenResponse.accessToken;
+    };
+
+    /**
+     * Initiates the auth code grant to acquire a token, returning to the current route afterwards
+     * @param {Request} req: express request object
+     * @param {Response} res: express response object
+     * @param {NextFunction} next: express next function
+     * @param {Array} scopes: scopes to redeem the auth code for
+     * @param {Array} extraScopesToConsent: scopes of other resources to consent to in the same round trip
+     * @param {string} claims: stringified claims request e.g. from a claims challenge
+     * @returns {Promise}
+     */
+    private async acquireTokenInteractively(req: Request, res: Response, next: NextFunction, scopes: string[], extraScopesToConsent?: string[], claims?: string): Promise<void> {
+        if (!this.isRedirectAllowed(req.originalUrl)) {
+            Logger.logError(ErrorMessages.REDIRECT_NOT_ALLOWED);
+            return next(new Error(ErrorMessages.REDIRECT_NOT_ALLOWED));
+        }
+
+        // request objects are only in session if an auth flow was initiated in it before
+        this.initializeSessionRequests(req);
+
+        // random GUID for csrf protection
+        req.session.nonce = this.cryptoProvider.createNewGuid();
+
+        const state = this.encodeState({
+            stage: AppStages.ACQUIRE_TOKEN,
+            path: req.originalUrl,
+            nonce: req.session.nonce,
+        });
+
+        const params: AuthCodeParams = {
+            authority: this.msalConfig.auth.authority,
+            scopes: scopes,
+            extraScopesToConsent: extraScopesToConsent,
+            claims: claims,
+            state: state,
+            redirect: UrlUtils.ensureAbsoluteUrl(req, this.appSettings.authRoutes.redirect),
+            account: req.session.account,
+        };
+
+        // initiate the first leg of auth code grant to get token
+        return this.getAuthCode(req, res, next, params);
+    };
+
+    /**
+     * Gets the pending claims challenge for a given resource from session
+     * @param {Request} req: express request object
+     * @param {string} resourceName: name of the resource in remoteResources
+     * @returns {string}
+     */
+    private getClaimsChallenge(req: Request, resourceName: string): string {
+        return req.session.claimsChallenges ? req.session.claimsChallenges[resourceName] : undefined;
+    };
+
+    /**
+     * Removes the claims challenge for a given resource from session, once it is satisfied
+     * @param {Request} req: express request object
+     * @param {string} resourceName: name of the resource in remoteResources
+     * @returns {void}
+     */
+    private removeClaimsChallenge(req: Request, resourceName: string): void {
+        if (req.session.claimsChallenges) {
+            delete req.session.claimsChallenges[resourceName];
+        }
+    };
+
+    /**
+     * Checks if the acrs claim of a token contains a given authentication context
+     * @param {Object} claims: id or access token claims
+     * @param {string} authContext: id of the authentication context e.g. c1
+     * @returns {boolean}
+     */
+    private hasAuthContext(claims: IdTokenClaims | AccessTokenClaims, authContext: string): boolean {
+        return !!claims && Array.isArray(claims.acrs) && claims.acrs.includes(authContext);
+    };
+
+    /**
+     * Gets a stringified claims request for an authentication context
+     * @param {string} authContext: id of the authentication context e.g. c1
+     * @param {string} tokenType: id_token or access_token
+     * @returns {string}
+     */
+    private getAuthContextClaims(authContext: string, tokenType: string): string {
+        return JSON.stringify({
+            [tokenType]: {
+                [BearerChallengeConstants.ACRS]: {
+                    essential: true,
+                    value: authContext,
+                },
+            },
+        });
+    };
+
+    /**
+     * Gets a WWW-Authenticate header value that challenges the client for a (new) token,
+     * optionally with a set of claims. For more information, visit:
+     * https://tools.ietf.org/html/rfc6750#section-3 and
+     * https://docs.microsoft.com/azure/active-directory/develop/claims-challenge
+     * @param {BearerChallenge} challenge: error, description, scope and claims of the challenge
+     * @returns {string}
+     */
+    private getBearerChallengeHeader(challenge: BearerChallenge): string {
+        return [
+            `Bearer realm=""`,
+            `authorization_uri="${this.msalConfig.auth.authority}/oauth2/v2.0/authorize"`,
+            `client_id="${this.appSettings.appCredentials.clientId}"`,
+            ...(challenge.error ? [`error="${challenge.error}"`] : []),
+            ...(challenge.errorDescription ? [`error_description="${challenge.errorDescription.replace(/"/g, "'")}"`] : []),
+            ...(challenge.scope ? [`scope="${challenge.scope}"`] : []),
+            ...(challenge.claims ? [`claims="${Buffer.from(challenge.claims).toString("base64")}"`] : []),
+        ].join(", ");
+    };
+
+    /**
+     * Responds with a 401 or 403 status and a problem details body (RFC 7807). 401 responses
+     * and 403 responses with an error code come with a WWW-Authenticate header (RFC 6750)
+     * @param {Response} res: express response object
+     * @param {number} status: 401 or 403
+     * @param {BearerChallenge} challenge: error, description, scope and claims of the challenge
+     * @returns {void}
+     */
+    private sendBearerChallenge(res: Response, status: number, challenge: BearerChallenge): void {
+        if (status === 401 || challenge.error) {
+            res.set(BearerChallengeConstants.WWW_AUTHENTICATE, this.getBearerChallengeHeader(challenge));
+        }
+
+        res.status(status)
+            .type(ProblemDetailsConstants.CONTENT_TYPE)
+            .json({
+                type: ProblemDetailsConstants.DEFAULT_TYPE,
+                title: STATUS_CODES[status],
+                status: status,
+                detail: challenge.errorDescription,
+                ...(challenge.error && { error: challenge.error }),
+            });
+    };
+
+    /**
+     * Rejects a request that fails a guard, either by redirecting to the unauthorized route (web apps)
+     * or by responding with a bearer challenge (web APIs), depending on the response type of the guard
+     * @param {Request} req: express request object
+     * @param {Response} res: express response object
+     * @param {GuardOptions} options: options of the guard
+     * @param {number} status: 401 or 403
+     * @param {BearerChallenge} challenge: error, description, scope and claims of the challenge
+     * @returns {void}
+     */
+    private rejectRequest(req: Request, res: Response, options: GuardOptions, status: number, challenge: BearerChallenge): void {
+        const responseType = options?.responseType || GuardResponseTypes.AUTO;
+
+        /**
+         * In auto mode, only requests that explicitly accept HTML (i.e. browser navigations) are redirected.
+         * XHR requests, requests preferring JSON and requests accepting any type (the default of fetch
+         * and most HTTP clients) are considered API calls
+         */
+        const isApiRequest = responseType === GuardResponseTypes.API ||
+            (responseType === GuardResponseTypes.AUTO && (req.xhr || !this.acceptsHtml(req) || req.accepts(["html", "json"]) === "json"));
+
+        if (isApiRequest) {
+            return this.sendBearerChallenge(res, status, challenge);
+        }
+
+        res.redirect(this.appSettings.authRoutes.unauthorized);
+    };
+
+    /**
+     * Checks if the accept header of a request explicitly lists HTML, rather than matching it via wildcards
+     * @param {Request} req: express request object
+     * @returns {boolean}
+     */
+    private acceptsHtml(req: Request): boolean {
+        return (req.get("accept") || "").split(",").some((mediaRange) => {
+            const [type, ...params] = mediaRange.split(";").map((part) => part.trim().toLowerCase());
+            const quality = params.find((param) => param.startsWith("q="));
+
+            return type === ProblemDetailsConstants.HTML_CONTENT_TYPE && (!quality || parseFloat(quality.substring(2)) > 0);
+        });
+    };
+
+    /**
+     * Gets the scopes required to access a given route, as defined in ownedResources
+     * @param {string} protectedRoute: route to get the scopes for
+     * @param {string} method: HTTP method of the request
+     * @returns {string}
+     */
+    private getScopesForRoute(protectedRoute: string, method: string): string {
+        const resource = ConfigurationUtils.getOwnedResource(this.appSettings, protectedRoute, method);
+
+        return resource ? resource.scopes.join(" ") : undefined;
+    };
+
+    /**
+     * Acquires a token on behalf of the user of an incoming token. Results are
+     * cached in memory by the hash of the incoming token, until they expire
+     * @param {string} oboAssertion: incoming access token
+     * @param {Array} scopes: scopes to request the token for
+     * @param {boolean} skipCache: whether to bypass cached results
+     * @returns {Promise}
+     */
+    private async acquireTokenOnBehalfOf(oboAssertion: string, scopes: string[], skipCache?: boolean): Promise<string> {
+        const cacheKey = `${CryptoUtils.hash(oboAssertion)}.${CryptoUtils.hash(scopes.join(" "))}`;
+        const now = Math.round(new Date().getTime() / 1000); // in UNIX format
+
+        if (!skipCache) {
+            const cachedResult = await this.oboCache.get(cacheKey);
+
+            if (cachedResult) {
+                const { accessToken, expiresOn } = JSON.parse(cachedResult);
+
+                if (expiresOn - CacheConstants.EXPIRATION_OFFSET > now) {
+                    return accessToken;
+                }
+
+                await this.oboCache.remove(cacheKey);
+            }
+        }
+
+        const oboRequest: OnBehalfOfRequest = {
+            oboAssertion: oboAssertion,
+            scopes: scopes,
+        };
+
+        const tokenResponse = await this.msalClient.acquireTokenOnBehalfOf(oboRequest);
+
+        if (tokenResponse.expiresOn) {
+            await this.oboCache.set(cacheKey, JSON.stringify({
+                accessToken: tokenResponse.accessToken,
+                expiresOn: Math.round(tokenResponse.expiresOn.getTime() / 1000),
+            }));
+        }
+
+        return tokenResponse.accessToken;
+    };
+
+    /**
+     * Initiates a B2C user-flow (e.g. edit profile) with the authority of a given policy
+     * @param {Request} req: express request object
+     * @param {Response} res: express response object
+     * @param {NextFunction} next: express next function
+     * @param {string} stage: app stage to resume after redirect
+     * @param {string} policy: name of the policy in b2cPolicies
+     * @param {string} path: path to redirect to after user-flow completes
+     * @returns {Promise}
+     */
+    private async initiateUserFlow(req: Request, res: Response, next: NextFunction, stage: string, policy: string, path: string): Promise<void> {
+        let authority: string;
+
+        try {
+            authority = this.getPolicyAuthority(policy);
+        } catch (error) {
+            return next(error);
+        }
+
+        this.initializeSessionRequests(req);
+
+        // random GUID for csrf protection
+        req.session.nonce = this.cryptoProvider.createNewGuid();
+
+        const state = this.encodeState({
+            stage: stage,
+            path: path,
+            nonce: req.session.nonce,
+        });
+
+        const params: AuthCodeParams = {
+            authority: authority,
+            scopes: OIDC_DEFAULT_SCOPES,
+            state: state,
+            redirect: UrlUtils.ensureAbsoluteUrl(req, this.appSettings.authRoutes.redirect),
+        };
+
+        return this.getAuthCode(req, res, next, params);
+    };
+
+    /**
+     * Gets the authority of a given B2C policy
+     * @param {string} policy: name of the policy in b2cPolicies
+     * @returns {string}
+     */
+    private getPolicyAuthority(policy: string): string {
+        if (!this.appSettings.b2cPolicies || !this.appSettings.b2cPolicies[policy]) {
+            throw new Error(`${ConfigurationErrorMessages.NO_B2C_POLICY} ${policy}`);
+        }
+
+        return this.appSettings.b2cPolicies[policy].authority;
+    };
+
     /**
      * This method is used to generate an auth code url request
      * @param {Request} req: express request object
@@ -529,17 +1786,35 @@ export class AuthProvider {
         // prepare the request
         req.session.authCodeRequest.authority = params.authority;
         req.session.authCodeRequest.scopes = params.scopes;
+        req.session.authCodeRequest.extraScopesToConsent = params.extraScopesToConsent;
         req.session.authCodeRequest.state = params.state;
         req.session.authCodeRequest.redirectUri = params.redirect;
         req.session.authCodeRequest.prompt = params.prompt;
+        req.session.authCodeRequest.responseMode = this.responseMode;
         req.session.authCodeRequest.account = params.account;
+        req.session.authCodeRequest.claims = params.claims;
+
+        // nonce is also sent as the OIDC nonce parameter, which is returned in the id token
+        req.session.authCodeRequest.nonce = req.session.nonce;
 
         req.session.tokenRequest.authority = params.authority;
         req.session.tokenRequest.scopes = params.scopes;
+        req.session.tokenRequest.claims = params.claims;
         req.session.tokenRequest.redirectUri = params.redirect;
 
         // request an authorization code to exchange for tokens
         try {
+            /**
+             * Generate a new PKCE verifier for each request. The challenge is sent with the
+             * auth code request, while the verifier is kept in session until the code is redeemed.
+             * For more information, visit: https://tools.ietf.org/html/rfc7636
+             */
+            const pkceCodes = await this.cryptoProvider.generatePkceCodes();
+
+            req.session.authCodeRequest.codeChallenge = pkceCodes.challenge;
+            req.session.authCodeRequest.codeChallengeMethod = Constants.S256_CODE_CHALLENGE_METHOD;
+            req.session.tokenRequest.codeVerifier = pkceCodes.verifier;
+
             const response = await this.msalClient.getAuthCodeUrl(req.session.authCodeRequest);
             res.redirect(response);
         } catch (error) {
@@ -548,15 +1823,55 @@ export class AuthProvider {
         }
     };
 
+    /**
+     * Encrypts and signs a given state object with the current state key,
+     * stamping it with the time of issue
+     * @param {State} state: state object to be sent with the auth code request
+     * @returns {string}
+     */
+    private encodeState(state: State): string {
+        return CryptoUtils.encrypt(
+            JSON.stringify({
+                ...state,
+                issuedAt: Math.round(new Date().getTime() / 1000), // in UNIX format
+            }),
+            this.stateKeys[0]
+        );
+    };
+
+    /**
+     * Decrypts and verifies a state parameter returned from the authorization server
+     * @param {string} encodedState: state parameter as received in the redirect
+     * @returns {State}
+     */
+    private decodeState(encodedState: string): State {
+        let state: State;
+
+        try {
+            state = JSON.parse(CryptoUtils.decrypt(encodedState, this.stateKeys));
+        } catch (error) {
+            throw new Error(ErrorMessages.STATE_INVALID);
+        }
+
+        const now = Math.round(new Date().getTime() / 1000); // in UNIX format
+        const maxAge = this.appSettings.stateProtection?.maxAge || StateConstants.MAX_AGE;
+
+        if (!state.issuedAt || state.issuedAt + maxAge < now) {
+            throw new Error(ErrorMessages.STATE_EXPIRED);
+        }
+
+        return state;
+    };
+
     /**
      * Handles group overage claims by querying MS Graph /memberOf endpoint
      * @param {Request} req: express request object
      * @param {Response} res: express response object
      * @param {NextFunction} next: express next function
-     * @param {AccessRule} rule: a given access rule
+     * @param {GuardOptions} options: options of the guard, including the access rule
      * @returns {Promise}
      */
-    private async handleOverage(req: Request, res: Response, next: NextFunction, rule: AccessRule): Promise<void> {
+    private async handleOverage(req: Request, res: Response, next: NextFunction, options: GuardOptions): Promise<void> {
         const { _claim_names, _claim_sources, ...newIdTokenClaims } = <any>req.session.account.idTokenClaims;
 
         const silentRequest: SilentFlowRequest = {
@@ -566,7 +1881,10 @@ export class AuthProvider {
 
         try {
             // acquire token silently to be used in resource call
-            const tokenResponse = await this.msalClient.acquireTokenSilent(silentRequest);
+            const tokenResponse = await this.runWithCachePartition(
+                req.session.account.homeAccountId,
+                () => this.msalClient.acquireTokenSilent(silentRequest)
+            );
             try {
                 const graphResponse = await FetchManager.callApiEndpoint(AccessConstants.GRAPH_MEMBERS_ENDPOINT, tokenResponse.accessToken);
 
@@ -585,8 +1903,10 @@ export class AuthProvider {
                             groups: userGroups
                         }
 
-                        if (!this.checkAccessRule(req.method, rule, req.session.account.idTokenClaims[AccessConstants.GROUPS], AccessConstants.GROUPS)) {
-                            return res.redirect(this.appSettings.authRoutes.unauthorized);
+                        if (!this.checkAccessRule(req.method, options.accessRule, req.session.account.idTokenClaims[AccessConstants.GROUPS], AccessConstants.GROUPS)) {
+                            return this.rejectRequest(req, res, options, 403, {
+                                errorDescription: ErrorMessages.NOT_PERMITTED,
+                            });
                         } else {
                             return next();
                         }
@@ -599,8 +1919,10 @@ export class AuthProvider {
                         groups: graphResponse["value"].map((v) => v.id)
                     }
 
-                    if (!this.checkAccessRule(req.method, rule, req.session.account.idTokenClaims[AccessConstants.GROUPS], AccessConstants.GROUPS)) {
-                        return res.redirect(this.appSettings.authRoutes.unauthorized);
+                    if (!this.checkAccessRule(req.method, options.accessRule, req.session.account.idTokenClaims[AccessConstants.GROUPS], AccessConstants.GROUPS)) {
+                        return this.rejectRequest(req, res, options, 403, {
+                            errorDescription: ErrorMessages.NOT_PERMITTED,
+                        });
                     } else {
                         return next();
                     }
@@ -613,6 +1935,16 @@ export class AuthProvider {
         }
     }
 
+    /**
+     * Checks if an access rule applies to a given HTTP method, regardless of case
+     * @param {AccessRule} rule: access rule for this route
+     * @param {string} method: HTTP method for this route
+     * @returns {boolean}
+     */
+    private allowsMethod(rule: AccessRule, method: string): boolean {
+        return rule.methods.some((ruleMethod) => ruleMethod.toUpperCase() === method.toUpperCase());
+    }
+
     /**
      * Checks if the request passes a given access rule
      * @param {string} method: HTTP method for this route
@@ -622,7 +1954,7 @@ export class AuthProvider {
      * @returns {boolean}
      */
     private checkAccessRule(method: string, rule: AccessRule, creds: string[], credType: string): boolean {
-        if (rule.methods.includes(method)) {
+        if (this.allowsMethod(rule, method)) {
             switch (credType) {
                 case AccessConstants.GROUPS:
                     if (rule.groups.filter(elem => creds.includes(elem)).length < 1) {
@@ -649,6 +1981,46 @@ export class AuthProvider {
         return true;
     }
 
+    /**
+     * Util method to get the scopes of a given set of remote resources
+     * @param {Array} resourceNames: names of resources in remoteResources
+     * @returns {Array}
+     */
+    private getScopesForResources(resourceNames: string[]): string[] {
+        const scopes = resourceNames.map((resourceName) => {
+            if (!this.appSettings.remoteResources || !this.appSettings.remoteResources[resourceName]) {
+                throw new Error(`${ErrorMessages.RESOURCE_NOT_FOUND} ${resourceName}`);
+            }
+
+            return this.appSettings.remoteResources[resourceName].scopes;
+        });
+
+        return Array.from(new Set([].concat(...scopes)));
+    };
+
+    /**
+     * Gets the .default scope of a resource, which is required for app-only tokens. Derived from
+     * the resource URI in scopes (e.g. api://{clientId}/access_as_user), or else from the
+     * origin of the endpoint (e.g. https://graph.microsoft.com for User.Read)
+     * @param {Resource} resource: resource to get the scope for
+     * @returns {string}
+     */
+    private getDefaultScope(resource: Resource): string {
+        const defaultScope = resource.scopes.find((scope) => scope.endsWith(ScopeConstants.DEFAULT_SCOPE_SUFFIX));
+
+        if (defaultScope) {
+            return defaultScope;
+        }
+
+        const uriScope = resource.scopes.find((scope) => scope.includes(ScopeConstants.URI_SEPARATOR));
+
+        if (uriScope) {
+            return `${uriScope.substring(0, uriScope.lastIndexOf("/"))}${ScopeConstants.DEFAULT_SCOPE_SUFFIX}`;
+        }
+
+        return `${new URL(resource.endpoint).origin}${ScopeConstants.DEFAULT_SCOPE_SUFFIX}`;
+    };
+
     /**
      * Util method to get the resource name for a given scope(s)
      * @param {Array} scopes: an array of scopes that the resource is associated with
@@ -15,10 +15,13 @@ import {
     LogLevel 
 } from "@azure/msal-node";
 
-import { AppSettings } from "./Types";
+import { AppSettings, Resource } from "./Types";
+import { UrlUtils } from "./UrlUtils";
 
 import { 
     AADAuthorityConstants, 
+    B2CPolicyNames,
+    BearerChallengeConstants,
     ConfigurationErrorMessages 
 } from "./Constants";
 
@@ -57,6 +60,10 @@ export class ConfigurationUtils {
         if (StringUtils.isEmpty(config.authRoutes.unauthorized)) {
             throw new Error(ConfigurationErrorMessages.NO_UNAUTHORIZED_ROUTE);
         }
+
+        if (config.stateProtection && (!config.stateProtection.encryptionKeys || config.stateProtection.encryptionKeys.filter(key => !StringUtils.isEmpty(key)).length < 1)) {
+            throw new Error(ConfigurationErrorMessages.NO_STATE_ENCRYPTION_KEY);
+        }
     };
 
 
@@ -72,15 +79,18 @@ export class ConfigurationUtils {
             auth: {
                 clientId: config.appCredentials.clientId,
                 authority: config.b2cPolicies ?
-                    Object.entries(config.b2cPolicies)[0][1]["authority"]
+                    ConfigurationUtils.getDefaultPolicyAuthority(config)
                     :
                     `https://${Constants.DEFAULT_AUTHORITY_HOST}/${config.appCredentials.tenantId}`,
                 ...(config.appCredentials.hasOwnProperty("clientSecret")) && { clientSecret: config.appCredentials.clientSecret },
                 ...(config.appCredentials.hasOwnProperty("clientCertificate")) && { clientCertificate: config.appCredentials.clientCertificate },
                 knownAuthorities: config.b2cPolicies ?
-                    [UrlString.getDomainFromUrl(Object.entries(config.b2cPolicies)[0][1]["authority"])] // in B2C scenarios
+                    Array.from(new Set(Object.values(config.b2cPolicies).map(policy => UrlString.getDomainFromUrl(policy.authority)))) // in B2C scenarios
                     :
                     [],
+                // advertise that the app can handle claims challenges e.g. CAE
+                // (msal-node types this option as an empty tuple, hence the cast)
+                clientCapabilities: [BearerChallengeConstants.CLIENT_CAPABILITY_CAE] as unknown as [],
             },
             cache: {
                 cachePlugin,
@@ -113,6 +123,35 @@ export class ConfigurationUtils {
         };
     };
 
+    /**
+     * Gets the authority of the default B2C policy i.e. the sign-up/sign-in
+     * user-flow if available, otherwise the first policy provided
+     * @param {AppSettings} config: configuration object
+     * @returns {string}
+     */
+    static getDefaultPolicyAuthority(config: AppSettings): string {
+        if (config.b2cPolicies[B2CPolicyNames.SIGN_UP_SIGN_IN]) {
+            return config.b2cPolicies[B2CPolicyNames.SIGN_UP_SIGN_IN].authority;
+        }
+
+        return Object.values(config.b2cPolicies)[0].authority;
+    };
+
+    /**
+     * Gets the owned resource whose endpoint (an express-style path pattern)
+     * and methods (if any) match a given route and HTTP method
+     * @param {AppSettings} config: configuration object
+     * @param {string} route: path of the route e.g. /api/todos/1
+     * @param {string} method: HTTP method of the request
+     * @returns {Resource}
+     */
+    static getOwnedResource(config: AppSettings, route: string, method?: string): Resource {
+        return Object.values(config.ownedResources || {}).find((resource: Resource) =>
+            UrlUtils.matchesPathPattern(resource.endpoint, route) &&
+            (!resource.methods || !method || resource.methods.map((m) => m.toUpperCase()).includes(method.toUpperCase()))
+        );
+    };
+
     /**
      * verifies if a string is  GUID
      * @param guid
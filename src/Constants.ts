@@ -11,6 +11,25 @@ export const AppStages = {
     SIGN_IN: "sign_in",
     SIGN_OUT: "sign_out",
     ACQUIRE_TOKEN: "acquire_token",
+    EDIT_PROFILE: "edit_profile",
+    RESET_PASSWORD: "reset_password",
+    CONSENT: "consent",
+};
+
+/**
+ * Default names of B2C user-flows in b2cPolicies
+ */
+export const B2CPolicyNames = {
+    SIGN_UP_SIGN_IN: "signUpSignIn",
+    EDIT_PROFILE: "editProfile",
+    RESET_PASSWORD: "resetPassword",
+};
+
+/**
+ * Constants related to B2C user-flows
+ */
+export const B2CConstants = {
+    POLICY: "policy", // query parameter of sign-in route selecting a policy in b2cPolicies
 };
 
 /**
@@ -22,6 +41,15 @@ export const AADAuthorityConstants = {
     CONSUMERS: "consumers"
 }
 
+/**
+ * Issuer templates for tokens issued by v1 and v2 endpoints
+ */
+export const AADIssuerTemplates = {
+    TENANT_ID_PLACEHOLDER: "{tenantid}",
+    V1: "https://sts.windows.net/{tenantid}/",
+    V2: "https://login.microsoftonline.com/{tenantid}/v2.0",
+}
+
 /**
  * String constants related to AAD Authority
  */
@@ -30,6 +58,183 @@ export const KeyVaultCredentialTypes = {
     CERTIFICATE: "certificate",
 }
 
+/**
+ * Constants used when encrypting data e.g. state parameter
+ */
+export const CryptoConstants = {
+    CIPHER_ALGORITHM: "aes-256-gcm",
+    HASH_ALGORITHM: "sha256",
+    KEY_LENGTH: 32,
+    IV_LENGTH: 12,
+    AUTH_TAG_LENGTH: 16, // GCM accepts truncated tags unless the length is pinned
+    // keys must be derived identically on every instance, so the salt is fixed
+    KDF_SALT: "msal-express-wrapper",
+    KDF_COST: 16384,
+    // DER tags used to build public keys from JSON web keys
+    ASN1_INTEGER: 0x02,
+    ASN1_SEQUENCE: 0x30,
+    // labels of subkeys derived for each purpose, so that data sealed for one cannot be used as another
+    STATE_KEY_LABEL: "state",
+    SESSION_KEY_LABEL: "session",
+};
+
+/**
+ * Constants related to persistent token cache
+ */
+export const CacheConstants = {
+    CACHE_DIRECTORY: ".msal-cache",
+    APP_PARTITION_KEY: "app",
+    ACCOUNT_SECTIONS: ["Account", "IdToken", "AccessToken", "RefreshToken"],
+    EMPTY_CACHE: {
+        Account: {},
+        IdToken: {},
+        AccessToken: {},
+        RefreshToken: {},
+        AppMetadata: {},
+    },
+    LRU_CAPACITY: 1000, // in partitions i.e. users
+    EXPIRATION_OFFSET: 300, // in seconds, tokens expiring sooner are not served from cache
+    LOCK_RETRY_COUNT: 50,
+    LOCK_RETRY_DELAY: 100, // in milliseconds
+    LOCK_STALE_TIMEOUT: 10000, // in milliseconds
+};
+
+/**
+ * Constants related to scopes
+ */
+export const ScopeConstants = {
+    DEFAULT_SCOPE_SUFFIX: "/.default",
+    URI_SEPARATOR: "://",
+};
+
+/**
+ * Defaults and names of checks in token validation
+ */
+export const TokenValidationConstants = {
+    CLOCK_SKEW: 300, // in seconds
+    ALGORITHMS: ["RS256"],
+    APP_ID_URI_PREFIX: "api://",
+    CHECKS: {
+        ISSUER: "issuer",
+        AUDIENCE: "audience",
+        EXPIRATION: "expiration",
+        NOT_BEFORE: "notBefore",
+        ISSUED_AT: "issuedAt",
+        REQUIRED_CLAIMS: "requiredClaims",
+        NONCE: "nonce",
+        CNF: "cnf",
+        METHOD: "method",
+        HOST: "host",
+        PATH: "path",
+        TIMESTAMP: "timestamp",
+        REPLAY: "replay",
+        PERMISSIONS: "permissions",
+    },
+};
+
+/**
+ * Constants related to proof-of-possession (PoP) tokens and signed HTTP requests
+ */
+export const PopConstants = {
+    AUTHORIZATION_SCHEME: "PoP",
+    TOKEN_TYPE: "pop",
+    ALGORITHM: "RS256",
+    MODULUS_LENGTH: 2048, // in bits, of the RSA key that tokens are bound to
+    RESOURCE_REQUEST_METHOD: "GET",
+    REPLAY_WINDOW: 300, // in seconds
+    THUMBPRINT_MEMBERS: {
+        RSA: ["e", "kty", "n"],
+    },
+};
+
+/**
+ * Constants related to signing keys of tokens
+ */
+export const SigningKeyConstants = {
+    CACHE_MAX_AGE: 86400, // in seconds
+    CACHE_MAX_ENTRIES: 10, // in keys per JWKS endpoint
+    REQUESTS_PER_MINUTE: 10,
+    MAX_JWKS_CLIENTS: 100, // JWKS endpoints (i.e. tenants) to keep clients for
+};
+
+/**
+ * Constants related to the OAuth state parameter
+ */
+export const StateConstants = {
+    MAX_AGE: 600, // in seconds
+};
+
+/**
+ * Constants related to session-less mode i.e. encrypted cookie sessions
+ */
+export const CookieSessionConstants = {
+    COOKIE_NAME: "msal.session",
+    MAX_AGE: 3600, // in seconds
+    ABSOLUTE_TIMEOUT: 86400, // in seconds, i.e. 24 hours
+    SAME_SITE: "lax",
+    CHUNK_SIZE: 3800, // in characters, below the 4096 bytes limit per cookie
+};
+
+/**
+ * Constants related to form_post response mode
+ */
+export const FormPostConstants = {
+    RESUBMIT_FIELD: "resubmitted",
+};
+
+/**
+ * Constants related to OIDC back-channel logout
+ */
+export const LogoutConstants = {
+    LOGOUT_TOKEN: "logout_token",
+    BACK_CHANNEL_LOGOUT_EVENT: "http://schemas.openid.net/event/backchannel-logout",
+    SID_KEY_PREFIX: "sid:",
+    SUB_KEY_PREFIX: "sub:",
+    MAX_AGE: 300, // in seconds, logout tokens issued earlier are rejected
+    SESSION_INDEX_TTL: 86400, // in seconds, for sessions whose cookie has no expiry
+};
+
+/**
+ * Constants related to redirects within the app
+ */
+export const RedirectConstants = {
+    RETURN_TO: "returnTo",
+};
+
+/**
+ * Constants related to bearer token challenges in WWW-Authenticate header,
+ * including claims challenges e.g. Continuous Access Evaluation (CAE)
+ */
+export const BearerChallengeConstants = {
+    WWW_AUTHENTICATE: "www-authenticate",
+    CLAIMS: "claims",
+    ERROR: "error",
+    INVALID_TOKEN: "invalid_token",
+    INSUFFICIENT_CLAIMS: "insufficient_claims",
+    CLIENT_CAPABILITY_CAE: "cp1",
+    ACRS: "acrs",
+    ID_TOKEN: "id_token",
+    ACCESS_TOKEN: "access_token",
+};
+
+/**
+ * Types of responses sent by guards when a request is rejected
+ */
+export const GuardResponseTypes = {
+    REDIRECT: "redirect", // redirect to unauthorized route
+    API: "api", // respond with 401/403 and a bearer challenge
+    AUTO: "auto", // detect from Accept and X-Requested-With headers, redirecting only if HTML is accepted
+};
+
+/**
+ * Constants related to problem details responses (RFC 7807)
+ */
+export const ProblemDetailsConstants = {
+    CONTENT_TYPE: "application/problem+json",
+    DEFAULT_TYPE: "about:blank",
+    HTML_CONTENT_TYPE: "text/html", // requests explicitly accepting it are redirected instead
+};
+
 /**
  * Constants used in access control scenarios
  */
@@ -45,7 +250,13 @@ export const AccessConstants = {
 
 export const InfoMessages = {
     REQUEST_FOR_RESOURCE: "Request made to web API",
-    OVERAGE_OCCURRED: "User has too many groups. Groups overage claim occurred"
+    OVERAGE_OCCURRED: "User has too many groups. Groups overage claim occurred",
+    SESSIONS_TERMINATED: "Sessions terminated via back-channel logout:",
+    BACK_CHANNEL_LOGOUT_WITHOUT_SESSION: "Back-channel logout cannot terminate sessions kept in cookies",
+    FORM_POST_RESUBMITTED: "Session not found in cross-site form post. Resubmitting form from app origin",
+    EPHEMERAL_STATE_KEY: "No encryption keys provided. Using an ephemeral key for this instance",
+    CLAIMS_CHALLENGE_RECEIVED: "Claims challenge received for resource:",
+    ACCESS_RULE_ALLOWED: "Request allowed by access rule:"
 }
 
 /**
@@ -53,6 +264,7 @@ export const InfoMessages = {
  */
 export const ErrorMessages = {
     NOT_PERMITTED: "Not permitted",
+    TENANT_NOT_ALLOWED: "Tenant is not allowed:",
     INVALID_TOKEN: "Invalid token",
     CANNOT_DETERMINE_APP_STAGE: "Cannot determine application stage",
     CANNOT_VALIDATE_TOKEN: "Cannot validate token",
@@ -60,18 +272,50 @@ export const ErrorMessages = {
     INTERACTION_REQUIRED: "interaction_required",
     TOKEN_ACQUISITION_FAILED: "Token acquisition failed",
     AUTH_CODE_NOT_OBTAINED: "Authorization code cannot be obtained",
+    AUTHORIZATION_ERROR: "Authorization server responded with error:",
+    CONSENT_REQUIRED: "User or admin consent is required for the requested scopes",
+    CODE_VERIFIER_NOT_FOUND: "No PKCE code verifier found for this request",
     TOKEN_NOT_FOUND: "No token found",
+    CLAIMS_CHALLENGE_NOT_PARSED: "Claims challenge cannot be parsed",
+    APP_TOKEN_NOT_OBTAINED: "App token cannot be obtained for resource:",
+    AUTH_CONTEXT_NOT_SATISFIED: "Authentication context is not satisfied:",
     TOKEN_NOT_DECODED: "Token cannot be decoded",
     TOKEN_NOT_VERIFIED: "Token cannot be verified",
+    TOKEN_CHECKS_FAILED: "Token failed validation checks:",
+    INVALID_SIGNED_HTTP_REQUEST: "Invalid signed HTTP request",
+    UNSUPPORTED_KEY_TYPE: "Unsupported key type:",
+    POP_KEY_NOT_FOUND: "Proof-of-possession token is bound to an unknown key:",
     KEYS_NOT_OBTAINED: "Signing keys cannot be obtained",
+    JWKS_FILE_NOT_READ: "Signing keys cannot be read from JWKS file:",
     STATE_NOT_FOUND: "State not found",
+    STATE_INVALID: "State is invalid or has been tampered with",
+    STATE_EXPIRED: "State has expired",
+    STATE_REPLAYED: "State has already been used",
+    CANNOT_DECRYPT: "Data cannot be decrypted",
     USER_HAS_NO_ROLE: "User does not have any roles",
     USER_NOT_IN_ROLE: "User does not have this role",
     USER_HAS_NO_GROUP: "User does not have any groups",
     USER_NOT_IN_GROUP: "User does not have this group",
     METHOD_NOT_ALLOWED: "Method not allowed for this route",
-    RULE_NOT_FOUND: "No rule found for this route",
+    RULE_NOT_FOUND: "No access rule found for route:",
+    ACCESS_RULE_DENIED: "Request denied by access rule:",
+    RESOURCE_NOT_FOUND: "No remote resource found with name:",
+    OWNED_RESOURCE_NOT_FOUND: "No owned resource found for route:",
+    REDIRECT_NOT_ALLOWED: "Redirect not allowed to:",
     SESSION_NOT_FOUND: "No session found for this request",
+    SESSION_EXPIRED: "Session has expired",
+    SESSION_NOT_DECRYPTED: "Session cookie cannot be decrypted",
+    SESSION_TICKET_INVALID: "Session cookie does not contain a valid ticket",
+    SESSION_NOT_INDEXED: "Session cannot be indexed for back-channel logout",
+    SESSION_NOT_TERMINATED: "Session cannot be terminated",
+    INVALID_LOGOUT_TOKEN: "Invalid logout token",
+    LOGOUT_TOKEN_REPLAYED: "Logout token has already been used",
+    LOGOUT_PARAMS_NOT_FOUND: "No sid or iss parameter found in logout request",
+    LOGOUT_PARAMS_MISMATCH: "Logout request does not match the session",
+    ACCOUNT_NOT_REMOVED: "Account cannot be removed from token cache",
+    CACHE_NOT_READ: "Token cache cannot be read from cache store",
+    CACHE_NOT_WRITTEN: "Token cache cannot be written to cache store",
+    CACHE_NOT_LOCKED: "Token cache file cannot be locked",
     KEY_VAULT_CONFIG_NOT_FOUND: "No coordinates found for Key Vault"
 };
 
@@ -83,7 +327,11 @@ export const ConfigurationErrorMessages = {
     NO_CLIENT_CREDENTIAL: "No client credential provided!",
     NO_REDIRECT_URI: "No redirect URI provided!",
     NO_ERROR_ROUTE: "No error route provided!",
-    NO_UNAUTHORIZED_ROUTE: "No unauthorized route provided!"
+    NO_UNAUTHORIZED_ROUTE: "No unauthorized route provided!",
+    INVALID_REDIRECT: "Redirect URL is neither a relative path nor in redirect allowlist:",
+    NO_B2C_POLICY: "No B2C policy provided for user-flow:",
+    NO_STATE_ENCRYPTION_KEY: "State protection is configured but no encryption keys provided!",
+    NO_SESSION_ENCRYPTION_KEY: "Session-less mode requires encryption keys in state protection settings!"
 }
 
 /**
@@ -91,4 +339,5 @@ export const ConfigurationErrorMessages = {
  */
 export const ErrorCodes = {
     65001: "AADSTS65001", // consent required
+    90118: "AADB2C90118", // forgot password
 };
\ No newline at end of file
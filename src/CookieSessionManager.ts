@@ -0,0 +1,299 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import {
+    RequestHandler,
+    Request,
+    Response,
+    NextFunction,
+    CookieOptions
+} from "express";
+
+import {
+    Session,
+    SessionData
+} from "express-session";
+
+import { CryptoUtils } from "./CryptoUtils";
+import { Logger } from "./Logger";
+
+import { CookieSessionOptions } from "./Types";
+
+import {
+    CookieSessionConstants,
+    ErrorMessages
+} from "./Constants";
+
+type CookieTicket = {
+    data: Partial<SessionData>;
+    issuedAt: number;
+    expiresAt: number;
+};
+
+/**
+ * Keeps session data in an encrypted authentication cookie (ticket) instead of
+ * a server-side session store. The ticket is split into multiple cookies if it
+ * exceeds the size limit of a single cookie, and its expiry is extended on each request
+ * up to an absolute timeout. As the ticket cannot be revoked on the server, a copy of it
+ * can be replayed until it expires, so access tokens are never written to it.
+ */
+export class CookieSessionManager {
+    private keys: Buffer[];
+    private options: CookieSessionOptions;
+
+    /**
+     * @param {Array} keys: symmetric keys to encrypt the ticket with, current key first
+     * @param {CookieSessionOptions} options: options to modify the cookie
+     * @constructor
+     */
+    constructor(keys: Buffer[], options: CookieSessionOptions = {}) {
+        this.keys = keys;
+        this.options = {
+            name: CookieSessionConstants.COOKIE_NAME,
+            maxAge: CookieSessionConstants.MAX_AGE,
+            absoluteTimeout: CookieSessionConstants.ABSOLUTE_TIMEOUT,
+            sameSite: CookieSessionConstants.SAME_SITE,
+            path: "/",
+            ...options,
+        };
+    }
+
+    /**
+     * Middleware that populates req.session from the ticket cookie,
+     * and writes the ticket back before response headers are sent
+     * @returns {RequestHandler}
+     */
+    initialize = (): RequestHandler => {
+        return (req: Request, res: Response, next: NextFunction): void => {
+            if (req.session) {
+                // session is already provided e.g. via express-session
+                return next();
+            }
+
+            const cookies = CookieSessionManager.parseCookies(req.headers.cookie);
+            const chunkCount = this.getChunkCount(cookies);
+
+            let destroyed = false;
+            let written = false;
+            const ticket = this.readTicket(cookies, chunkCount);
+            const data = ticket ? ticket.data : {};
+
+            // absolute timeout is counted from when the ticket was first issued
+            const issuedAt = ticket ? ticket.issuedAt : CookieSessionManager.getCurrentTime();
+
+            // session methods are not enumerable, so that they are not written to the ticket
+            req.session = Object.defineProperties(data, {
+                destroy: {
+                    value: (callback?: (err?: any) => void) => {
+                        destroyed = true;
+                        Object.keys(data).forEach((key) => delete data[key]);
+                        if (callback) callback();
+                        return req.session;
+                    },
+                },
+                save: {
+                    value: (callback?: (err?: any) => void) => {
+                        if (callback) callback();
+                        return req.session;
+                    },
+                },
+            }) as unknown as Session & Partial<SessionData>;
+
+            // write the ticket right before headers are sent, as data may change until then
+            const writeHead = res.writeHead;
+
+            res.writeHead = (...args: any[]) => {
+                if (!written) {
+                    written = true;
+                    this.writeTicket(req, res, destroyed ? {} : data, issuedAt, chunkCount);
+                }
+
+                return writeHead.apply(res, args);
+            };
+
+            next();
+        }
+    };
+
+    /**
+     * Reads and decrypts the ticket from its cookie chunks. Null is
+     * returned if the ticket is missing, invalid or has expired
+     * @param {Object} cookies: request cookies
+     * @param {number} chunkCount: number of chunks in request
+     * @returns {CookieTicket}
+     */
+    private readTicket(cookies: { [name: string]: string }, chunkCount: number): CookieTicket {
+        if (chunkCount === 0) {
+            return null;
+        }
+
+        let chunks = "";
+
+        for (let i = 0; i < chunkCount; i++) {
+            chunks += cookies[`${this.options.name}.${i}`];
+        }
+
+        try {
+            const ticket: CookieTicket = JSON.parse(CryptoUtils.decrypt(chunks, this.keys));
+            const now = CookieSessionManager.getCurrentTime();
+
+            if (!CookieSessionManager.isTicket(ticket)) {
+                Logger.logError(ErrorMessages.SESSION_TICKET_INVALID);
+                return null;
+            }
+
+            if (ticket.expiresAt < now || ticket.issuedAt + this.options.absoluteTimeout < now) {
+                Logger.logWarning(ErrorMessages.SESSION_EXPIRED);
+                return null;
+            }
+
+            return ticket;
+        } catch (error) {
+            Logger.logError(ErrorMessages.SESSION_NOT_DECRYPTED);
+            return null;
+        }
+    };
+
+    /**
+     * Encrypts the session data with a renewed expiry (sliding expiration), capped
+     * by the absolute timeout, and writes it to response in chunks, clearing any stale chunks
+     * @param {Request} req: express request object
+     * @param {Response} res: express response object
+     * @param {Object} data: session data
+     * @param {number} issuedAt: time the ticket was first issued, in UNIX format
+     * @param {number} previousChunkCount: number of chunks in request
+     * @returns {void}
+     */
+    private writeTicket(req: Request, res: Response, data: Partial<SessionData>, issuedAt: number, previousChunkCount: number): void {
+        const cookieOptions: CookieOptions = {
+            httpOnly: true,
+            secure: this.options.secure !== undefined ? this.options.secure : req.secure,
+            sameSite: this.options.sameSite as CookieOptions["sameSite"],
+            path: this.options.path,
+            domain: this.options.domain,
+        };
+
+        const now = CookieSessionManager.getCurrentTime();
+        const expiresAt = Math.min(now + this.options.maxAge, issuedAt + this.options.absoluteTimeout);
+
+        let chunks: string[] = [];
+
+        if (Object.keys(data).length > 0) {
+            const ticket: CookieTicket = {
+                data: CookieSessionManager.removeAccessTokens(data),
+                issuedAt: issuedAt,
+                expiresAt: expiresAt,
+            };
+
+            const encrypted = CryptoUtils.encrypt(JSON.stringify(ticket), this.keys[0]);
+            chunks = encrypted.match(new RegExp(`.{1,${CookieSessionConstants.CHUNK_SIZE}}`, "g"));
+        }
+
+        chunks.forEach((chunk, i) => {
+            res.cookie(`${this.options.name}.${i}`, chunk, {
+                ...cookieOptions,
+                maxAge: (expiresAt - now) * 1000, // in milliseconds
+            });
+        });
+
+        for (let i = chunks.length; i < previousChunkCount; i++) {
+            res.clearCookie(`${this.options.name}.${i}`, cookieOptions);
+        }
+    };
+
+    /**
+     * Gets the number of consecutive ticket chunks in request cookies
+     * @param {Object} cookies: request cookies
+     * @returns {number}
+     */
+    private getChunkCount(cookies: { [name: string]: string }): number {
+        let count = 0;
+
+        while (cookies[`${this.options.name}.${count}`] !== undefined) {
+            count++;
+        }
+
+        return count;
+    };
+
+    /**
+     * Copies session data without the access tokens of remote resources. Access tokens
+     * are acquired from token cache on each request, so they need not be kept in the ticket
+     * @param {Object} data: session data
+     * @returns {Object}
+     */
+    private static removeAccessTokens(data: Partial<SessionData>): Partial<SessionData> {
+        if (!data.remoteResources) {
+            return data;
+        }
+
+        const remoteResources = {};
+
+        Object.keys(data.remoteResources).forEach((resourceName) => {
+            remoteResources[resourceName] = { ...data.remoteResources[resourceName] };
+            delete remoteResources[resourceName].accessToken;
+        });
+
+        return {
+            ...data,
+            remoteResources: remoteResources,
+        };
+    };
+
+    /**
+     * Gets the current time in UNIX format
+     * @returns {number}
+     */
+    private static getCurrentTime(): number {
+        return Math.round(new Date().getTime() / 1000);
+    };
+
+    /**
+     * Checks if decrypted data has the shape of a ticket
+     * @param {Object} ticket: decrypted data
+     * @returns {boolean}
+     */
+    private static isTicket(ticket: CookieTicket): boolean {
+        return !!ticket
+            && typeof ticket === "object"
+            && typeof ticket.issuedAt === "number"
+            && typeof ticket.expiresAt === "number"
+            && !!ticket.data
+            && typeof ticket.data === "object"
+            && !Array.isArray(ticket.data);
+    };
+
+    /**
+     * Parses the cookie header of a request
+     * @param {string} cookieHeader: value of cookie header
+     * @returns {Object}
+     */
+    static parseCookies = (cookieHeader: string): { [name: string]: string } => {
+        const cookies = {};
+
+        if (!cookieHeader) {
+            return cookies;
+        }
+
+        cookieHeader.split(";").forEach((cookie) => {
+            const index = cookie.indexOf("=");
+
+            if (index < 0) {
+                return;
+            }
+
+            const name = cookie.substring(0, index).trim();
+            const value = cookie.substring(index + 1).trim();
+
+            try {
+                cookies[name] = decodeURIComponent(value);
+            } catch (error) {
+                cookies[name] = value;
+            }
+        });
+
+        return cookies;
+    };
+}
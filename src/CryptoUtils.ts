@@ -0,0 +1,249 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import crypto from "crypto";
+
+import { JsonWebKey } from "./Types";
+
+import {
+    ErrorMessages,
+    CryptoConstants,
+    PopConstants
+} from "./Constants";
+
+export class CryptoUtils {
+
+    /**
+     * Derives a fixed-length symmetric key from a given secret. As secrets
+     * may be human-chosen passphrases, a memory-hard function (scrypt) is used
+     * @param {string} secret: a secret string e.g. from app settings
+     * @returns {Buffer}
+     */
+    static deriveKey = (secret: string): Buffer => {
+        return crypto.scryptSync(secret, CryptoConstants.KDF_SALT, CryptoConstants.KEY_LENGTH, {
+            N: CryptoConstants.KDF_COST,
+        });
+    };
+
+    /**
+     * Builds a public key from an RSA JSON web key, encoding its modulus
+     * and exponent as an RSAPublicKey structure (RFC 8017, appendix A.1.1)
+     * @param {JsonWebKey} jwk: public key
+     * @returns {KeyObject}
+     */
+    static getPublicKeyFromJwk = (jwk: JsonWebKey): crypto.KeyObject => {
+        if (jwk.kty !== "RSA" || !jwk.n || !jwk.e) {
+            throw new Error(`${ErrorMessages.UNSUPPORTED_KEY_TYPE} ${jwk.kty}`);
+        }
+
+        const encodeLength = (length: number): Buffer => {
+            if (length < 0x80) {
+                return Buffer.from([length]);
+            }
+
+            const bytes = [];
+
+            for (let remaining = length; remaining > 0; remaining >>= 8) {
+                bytes.unshift(remaining & 0xff);
+            }
+
+            return Buffer.from([0x80 | bytes.length, ...bytes]);
+        };
+
+        const encode = (tag: number, content: Buffer): Buffer => {
+            return Buffer.concat([Buffer.from([tag]), encodeLength(content.length), content]);
+        };
+
+        // integers are signed, so a leading zero keeps them positive
+        const encodeUnsignedInteger = (value: Buffer): Buffer => {
+            return encode(CryptoConstants.ASN1_INTEGER, value[0] & 0x80 ? Buffer.concat([Buffer.from([0]), value]) : value);
+        };
+
+        const rsaPublicKey = encode(CryptoConstants.ASN1_SEQUENCE, Buffer.concat([
+            encodeUnsignedInteger(CryptoUtils.base64UrlDecode(jwk.n)),
+            encodeUnsignedInteger(CryptoUtils.base64UrlDecode(jwk.e)),
+        ]));
+
+        return crypto.createPublicKey({ key: rsaPublicKey, format: "der", type: "pkcs1" });
+    };
+
+    /**
+     * Builds an RSA JSON web key from a public key, decoding the modulus and exponent
+     * of its RSAPublicKey structure, as older Node versions cannot export keys as JWK
+     * @param {KeyObject} publicKey: RSA public key
+     * @returns {JsonWebKey}
+     */
+    static getJwkFromPublicKey = (publicKey: crypto.KeyObject): JsonWebKey => {
+        if (publicKey.asymmetricKeyType !== "rsa") {
+            throw new Error(`${ErrorMessages.UNSUPPORTED_KEY_TYPE} ${publicKey.asymmetricKeyType}`);
+        }
+
+        const rsaPublicKey = publicKey.export({ type: "pkcs1", format: "der" });
+
+        // gets the bounds of the content of the element at a given offset
+        const decode = (offset: number): { start: number, end: number } => {
+            let length = rsaPublicKey[offset + 1];
+            let start = offset + 2;
+
+            if (length & 0x80) {
+                const lengthBytes = length & 0x7f;
+                length = rsaPublicKey.readUIntBE(start, lengthBytes);
+                start += lengthBytes;
+            }
+
+            return { start, end: start + length };
+        };
+
+        // integers are signed, so drop the leading zero that keeps them positive
+        const decodeUnsignedInteger = ({ start, end }: { start: number, end: number }): Buffer => {
+            const value = rsaPublicKey.slice(start, end);
+            return value[0] === 0 && value.length > 1 ? value.slice(1) : value;
+        };
+
+        const sequence = decode(0);
+        const modulus = decode(sequence.start);
+        const exponent = decode(modulus.end);
+
+        return {
+            kty: "RSA",
+            n: CryptoUtils.base64UrlEncode(decodeUnsignedInteger(modulus)),
+            e: CryptoUtils.base64UrlEncode(decodeUnsignedInteger(exponent)),
+        };
+    };
+
+    /**
+     * Derives a subkey for a given purpose from a symmetric key (HKDF, RFC 5869),
+     * so that data sealed for one purpose cannot be opened for another
+     * @param {Buffer} key: symmetric key e.g. derived via deriveKey()
+     * @param {string} label: purpose of the subkey e.g. state
+     * @returns {Buffer}
+     */
+    static deriveSubkey = (key: Buffer, label: string): Buffer => {
+        const pseudoRandomKey = crypto.createHmac(CryptoConstants.HASH_ALGORITHM, CryptoConstants.KDF_SALT)
+            .update(key)
+            .digest();
+
+        // a single block of output is enough, as the digest is as long as the key
+        return crypto.createHmac(CryptoConstants.HASH_ALGORITHM, pseudoRandomKey)
+            .update(Buffer.concat([Buffer.from(label, "utf8"), Buffer.from([1])]))
+            .digest()
+            .slice(0, CryptoConstants.KEY_LENGTH);
+    };
+
+    /**
+     * Hashes a given string e.g. to use a token as a cache key without storing it
+     * @param {string} input: string to hash
+     * @returns {string}
+     */
+    static hash = (input: string): string => {
+        return CryptoUtils.base64UrlEncode(
+            crypto.createHash(CryptoConstants.HASH_ALGORITHM).update(input).digest()
+        );
+    };
+
+    /**
+     * Computes the thumbprint of a public JSON web key (RFC 7638),
+     * used to bind proof-of-possession tokens to a key
+     * @param {JsonWebKey} jwk: public key
+     * @returns {string}
+     */
+    static getJwkThumbprint = (jwk: JsonWebKey): string => {
+        const members: string[] = PopConstants.THUMBPRINT_MEMBERS[jwk.kty];
+
+        if (!members) {
+            throw new Error(`${ErrorMessages.UNSUPPORTED_KEY_TYPE} ${jwk.kty}`);
+        }
+
+        // required members only, in lexicographic order and without whitespace
+        const canonical = JSON.stringify(
+            members.reduce((acc, member) => ({ ...acc, [member]: jwk[member] }), {})
+        );
+
+        return CryptoUtils.hash(canonical);
+    };
+
+    /**
+     * Generates a random symmetric key
+     * @returns {Buffer}
+     */
+    static generateKey = (): Buffer => {
+        return crypto.randomBytes(CryptoConstants.KEY_LENGTH);
+    };
+
+    /**
+     * Encrypts and signs a given string with an authenticated cipher (AES-GCM)
+     * @param {string} plaintext: data to encrypt
+     * @param {Buffer} key: symmetric key
+     * @returns {string}
+     */
+    static encrypt = (plaintext: string, key: Buffer): string => {
+        const iv = crypto.randomBytes(CryptoConstants.IV_LENGTH);
+        const cipher = crypto.createCipheriv(CryptoConstants.CIPHER_ALGORITHM, key, iv) as crypto.CipherGCM;
+
+        const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+        const authTag = cipher.getAuthTag();
+
+        return [iv, ciphertext, authTag]
+            .map((part) => CryptoUtils.base64UrlEncode(part))
+            .join(".");
+    };
+
+    /**
+     * Decrypts a string encrypted via encrypt(). Each key is tried in
+     * order, so that data sealed with a retired key can still be opened
+     * @param {string} encrypted: data to decrypt
+     * @param {Array} keys: symmetric keys, current key first
+     * @returns {string}
+     */
+    static decrypt = (encrypted: string, keys: Buffer[]): string => {
+        const parts = encrypted.split(".");
+
+        if (parts.length !== 3) {
+            throw new Error(ErrorMessages.CANNOT_DECRYPT);
+        }
+
+        const [iv, ciphertext, authTag] = parts.map((part) => CryptoUtils.base64UrlDecode(part));
+
+        if (authTag.length !== CryptoConstants.AUTH_TAG_LENGTH) {
+            throw new Error(ErrorMessages.CANNOT_DECRYPT);
+        }
+
+        for (const key of keys) {
+            try {
+                const decipher = crypto.createDecipheriv(CryptoConstants.CIPHER_ALGORITHM as crypto.CipherGCMTypes, key, iv, {
+                    authTagLength: CryptoConstants.AUTH_TAG_LENGTH,
+                });
+                decipher.setAuthTag(authTag);
+                return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+            } catch (error) {
+                // authentication failed with this key, try the next one
+                continue;
+            }
+        }
+
+        throw new Error(ErrorMessages.CANNOT_DECRYPT);
+    };
+
+    /**
+     * Encodes a buffer to URL-safe base64 without padding
+     * @param {Buffer} input
+     * @returns {string}
+     */
+    static base64UrlEncode = (input: Buffer): string => {
+        return input.toString("base64")
+            .replace(/\+/g, "-")
+            .replace(/\//g, "_")
+            .replace(/=+$/, "");
+    };
+
+    /**
+     * Decodes a URL-safe base64 string to a buffer
+     * @param {string} input
+     * @returns {Buffer}
+     */
+    static base64UrlDecode = (input: string): Buffer => {
+        return Buffer.from(input.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+    };
+}
@@ -4,10 +4,12 @@
  */
 
 import axios, { AxiosResponse, AxiosRequestConfig } from "axios";
-import { StringUtils } from "@azure/msal-common";
+import { StringUtils, AuthenticationScheme } from "@azure/msal-common";
 
 import { 
     AccessConstants, 
+    BearerChallengeConstants,
+    PopConstants,
     InfoMessages, 
     ErrorMessages 
 } from "./Constants";
@@ -18,20 +20,24 @@ export class FetchManager {
 
     /**
      * Calls a resource endpoint with a raw access token
-     * using the authorization bearer token scheme
+     * using the authorization bearer token scheme, or with a signed
+     * HTTP request using the PoP scheme for proof-of-possession tokens
      * @param {string} endpoint 
      * @param {string} accessToken 
+     * @param {AuthenticationScheme} authenticationScheme: scheme of the token, as set for the resource
      * @returns {Promise}
      */
-    static callApiEndpoint = async (endpoint: string, accessToken: string): Promise<any> => {
+    static callApiEndpoint = async (endpoint: string, accessToken: string, authenticationScheme?: AuthenticationScheme): Promise<any> => {
 
         if (StringUtils.isEmpty(accessToken)) {
             throw new Error(ErrorMessages.TOKEN_NOT_FOUND)
         }
 
+        const scheme = authenticationScheme === AuthenticationScheme.POP ? PopConstants.AUTHORIZATION_SCHEME : AuthenticationScheme.BEARER;
+
         const options: AxiosRequestConfig = {
             headers: {
-                Authorization: `Bearer ${accessToken}`
+                Authorization: `${scheme} ${accessToken}`
             }
         };
 
@@ -70,4 +76,40 @@ export class FetchManager {
     
     }
 
+    /**
+     * Parses a WWW-Authenticate header returned by a web API (e.g. due to CAE or
+     * conditional access) and gets the decoded claims challenge, if any
+     * @param {string} wwwAuthenticateHeader: value of WWW-Authenticate response header
+     * @returns {string}
+     */
+    static getClaimsChallenge = (wwwAuthenticateHeader: string): string => {
+        if (StringUtils.isEmpty(wwwAuthenticateHeader)) {
+            return null;
+        }
+
+        const params = {};
+        const regex = /([\w-]+)="([^"]*)"/g;
+        let match: RegExpExecArray;
+
+        while ((match = regex.exec(wwwAuthenticateHeader)) !== null) {
+            params[match[1]] = match[2];
+        }
+
+        if (params[BearerChallengeConstants.ERROR] !== BearerChallengeConstants.INSUFFICIENT_CLAIMS
+            || StringUtils.isEmpty(params[BearerChallengeConstants.CLAIMS])) {
+            return null;
+        }
+
+        try {
+            const claims = Buffer.from(params[BearerChallengeConstants.CLAIMS], "base64").toString("utf8");
+
+            // claims challenge must be a valid JSON object
+            JSON.parse(claims);
+            return claims;
+        } catch (error) {
+            Logger.logError(ErrorMessages.CLAIMS_CHALLENGE_NOT_PARSED);
+            return null;
+        }
+    }
+
 }
@@ -0,0 +1,168 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+import { ICacheStore } from "./Types";
+
+import {
+    CacheConstants,
+    CryptoConstants,
+    ErrorMessages
+} from "./Constants";
+
+/**
+ * Key-value store that keeps each cache partition in its own file. Writes are atomic
+ * (write to a temporary file, then rename) and guarded by a lock file, so that
+ * multiple processes can share the same cache directory.
+ */
+export class FileCacheStore implements ICacheStore {
+    private directory: string;
+
+    /**
+     * @param {string} directory: path to the directory to keep cache files in
+     * @constructor
+     */
+    constructor(directory: string = CacheConstants.CACHE_DIRECTORY) {
+        this.directory = directory;
+        fs.mkdirSync(this.directory, { recursive: true });
+    }
+
+    /**
+     * Reads a partition from its file
+     * @param {string} key: partition key
+     * @returns {Promise}
+     */
+    async get(key: string): Promise<string> {
+        try {
+            return await fs.promises.readFile(this.getFilePath(key), "utf8");
+        } catch (error) {
+            if (error.code === "ENOENT") {
+                return null;
+            }
+
+            throw error;
+        }
+    };
+
+    /**
+     * Writes a partition to its file atomically
+     * @param {string} key: partition key
+     * @param {string} value: serialized partition
+     * @returns {Promise}
+     */
+    async set(key: string, value: string): Promise<void> {
+        const filePath = this.getFilePath(key);
+        await this.withLock(filePath, () => this.writeFile(filePath, value));
+    };
+
+    /**
+     * Updates a partition with a given function, holding the lock
+     * from reading its file until the new value is written
+     * @param {string} key: partition key
+     * @param {Function} updater: function returning the new value from the current one
+     * @returns {Promise}
+     */
+    async update(key: string, updater: (value: string) => string): Promise<void> {
+        const filePath = this.getFilePath(key);
+
+        await this.withLock(filePath, async () => {
+            const value = await this.get(key);
+            await this.writeFile(filePath, updater(value));
+        });
+    };
+
+    /**
+     * Removes the file of a partition
+     * @param {string} key: partition key
+     * @returns {Promise}
+     */
+    async remove(key: string): Promise<void> {
+        const filePath = this.getFilePath(key);
+
+        await this.withLock(filePath, async () => {
+            try {
+                await fs.promises.unlink(filePath);
+            } catch (error) {
+                if (error.code !== "ENOENT") {
+                    throw error;
+                }
+            }
+        });
+    };
+
+    /**
+     * Writes a given value to a file atomically, i.e. to a temporary file first
+     * which is then renamed. Callers must hold the lock of the file
+     * @param {string} filePath: path of the file to write
+     * @param {string} value: serialized partition
+     * @returns {Promise}
+     */
+    private async writeFile(filePath: string, value: string): Promise<void> {
+        const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+
+        try {
+            // cache contains refresh tokens, so only the owner should be able to read it
+            await fs.promises.writeFile(tempPath, value, { encoding: "utf8", mode: 0o600 });
+            await fs.promises.rename(tempPath, filePath);
+        } catch (error) {
+            await fs.promises.unlink(tempPath).catch(() => null);
+            throw error;
+        }
+    };
+
+    /**
+     * Gets the path of the file for a given partition key. Keys are hashed,
+     * as they may contain characters that are not safe in file names
+     * @param {string} key: partition key
+     * @returns {string}
+     */
+    private getFilePath(key: string): string {
+        const fileName = crypto.createHash(CryptoConstants.HASH_ALGORITHM).update(key).digest("hex");
+        return path.join(this.directory, `${fileName}.json`);
+    };
+
+    /**
+     * Runs a given function while holding the lock file of a given file.
+     * Lock files older than the stale timeout are assumed to be abandoned
+     * @param {string} filePath: path of the file to lock
+     * @param {Function} callback: function to run while holding the lock
+     * @returns {Promise}
+     */
+    private async withLock(filePath: string, callback: () => Promise<void>): Promise<void> {
+        const lockPath = `${filePath}.lock`;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                await (await fs.promises.open(lockPath, "wx")).close();
+                break;
+            } catch (error) {
+                if (error.code !== "EEXIST") {
+                    throw error;
+                }
+
+                if (attempt >= CacheConstants.LOCK_RETRY_COUNT) {
+                    throw new Error(ErrorMessages.CACHE_NOT_LOCKED);
+                }
+
+                const lockStats = await fs.promises.stat(lockPath).catch(() => null);
+
+                if (lockStats && Date.now() - lockStats.mtimeMs > CacheConstants.LOCK_STALE_TIMEOUT) {
+                    await fs.promises.unlink(lockPath).catch(() => null);
+                } else {
+                    await new Promise((resolve) => setTimeout(resolve, CacheConstants.LOCK_RETRY_DELAY));
+                }
+            }
+        }
+
+        try {
+            await callback();
+        } finally {
+            await fs.promises.unlink(lockPath).catch(() => null);
+        }
+    };
+}
@@ -0,0 +1,79 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { ICacheStore } from "./Types";
+import { CacheConstants } from "./Constants";
+
+/**
+ * Key-value store that keeps cache partitions in memory, evicting
+ * the least recently used partition when capacity is reached
+ */
+export class InMemoryCacheStore implements ICacheStore {
+    private capacity: number;
+    private partitions: Map<string, string> = new Map();
+
+    /**
+     * @param {number} capacity: maximum number of partitions to keep
+     * @constructor
+     */
+    constructor(capacity: number = CacheConstants.LRU_CAPACITY) {
+        this.capacity = capacity;
+    }
+
+    /**
+     * Gets a partition and marks it as most recently used
+     * @param {string} key: partition key
+     * @returns {Promise}
+     */
+    async get(key: string): Promise<string> {
+        if (!this.partitions.has(key)) {
+            return null;
+        }
+
+        const value = this.partitions.get(key);
+
+        // maps iterate in insertion order, so re-insert to mark as most recently used
+        this.partitions.delete(key);
+        this.partitions.set(key, value);
+
+        return value;
+    };
+
+    /**
+     * Sets a partition, evicting the least recently used one if needed
+     * @param {string} key: partition key
+     * @param {string} value: serialized partition
+     * @returns {Promise}
+     */
+    async set(key: string, value: string): Promise<void> {
+        this.partitions.delete(key);
+        this.partitions.set(key, value);
+
+        if (this.partitions.size > this.capacity) {
+            this.partitions.delete(this.partitions.keys().next().value);
+        }
+    };
+
+    /**
+     * Removes a partition
+     * @param {string} key: partition key
+     * @returns {Promise}
+     */
+    async remove(key: string): Promise<void> {
+        this.partitions.delete(key);
+    };
+
+    /**
+     * Updates a partition with a given function. Nothing is awaited
+     * between read and write, so no other access can interleave
+     * @param {string} key: partition key
+     * @param {Function} updater: function returning the new value from the current one
+     * @returns {Promise}
+     */
+    async update(key: string, updater: (value: string) => string): Promise<void> {
+        const value = this.partitions.has(key) ? this.partitions.get(key) : null;
+        await this.set(key, updater(value));
+    };
+}
@@ -0,0 +1,90 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { ISessionStoreAdapter } from "./Types";
+import { LogoutConstants } from "./Constants";
+
+/**
+ * Default session store adapter, which keeps the index of sessions in memory.
+ * This is unfit for apps running on multiple instances, as each instance
+ * will only know about sessions that were signed in on it.
+ */
+export class InMemorySessionStoreAdapter implements ISessionStoreAdapter {
+    private sessionIndex: Map<string, Set<string>> = new Map();
+    private sessionExpiries: Map<string, number> = new Map(); // session id to expiry
+
+    /**
+     * Associates a session with a set of keys e.g. sid and sub claims. Expired
+     * sessions are pruned, as the session store may remove them without notice
+     * @param {Array} keys: keys to index the session with
+     * @param {string} sessionId: id of the session in session store
+     * @param {number} expiresAt: expiry of the session cookie in UNIX format, if any
+     * @returns {Promise}
+     */
+    async addSession(keys: string[], sessionId: string, expiresAt?: number): Promise<void> {
+        const now = Math.round(new Date().getTime() / 1000); // in UNIX format
+
+        this.pruneExpiredSessions(now);
+
+        keys.forEach((key) => {
+            if (!this.sessionIndex.has(key)) {
+                this.sessionIndex.set(key, new Set());
+            }
+
+            this.sessionIndex.get(key).add(sessionId);
+        });
+
+        this.sessionExpiries.set(sessionId, expiresAt || now + LogoutConstants.SESSION_INDEX_TTL);
+    };
+
+    /**
+     * Gets the ids of sessions associated with a given key
+     * @param {string} key: key the sessions are indexed with
+     * @returns {Promise}
+     */
+    async getSessions(key: string): Promise<string[]> {
+        this.pruneExpiredSessions(Math.round(new Date().getTime() / 1000));
+        return Array.from(this.sessionIndex.get(key) || []);
+    };
+
+    /**
+     * Removes a session from the index
+     * @param {string} sessionId: id of the session in session store
+     * @returns {Promise}
+     */
+    async removeSession(sessionId: string): Promise<void> {
+        this.unindexSession(sessionId);
+    };
+
+    /**
+     * Removes sessions that have expired from the index
+     * @param {number} now: current time in UNIX format
+     * @returns {void}
+     */
+    private pruneExpiredSessions(now: number): void {
+        this.sessionExpiries.forEach((expiresAt, sessionId) => {
+            if (expiresAt < now) {
+                this.unindexSession(sessionId);
+            }
+        });
+    };
+
+    /**
+     * Removes a session from all keys it is indexed with
+     * @param {string} sessionId: id of the session in session store
+     * @returns {void}
+     */
+    private unindexSession(sessionId: string): void {
+        this.sessionExpiries.delete(sessionId);
+
+        this.sessionIndex.forEach((sessionIds, key) => {
+            sessionIds.delete(sessionId);
+
+            if (sessionIds.size === 0) {
+                this.sessionIndex.delete(key);
+            }
+        });
+    };
+}
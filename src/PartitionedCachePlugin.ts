@@ -0,0 +1,198 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+
+import {
+    ICachePlugin,
+    TokenCacheContext
+} from "@azure/msal-node";
+
+import { Logger } from "./Logger";
+
+import { ICacheStore } from "./Types";
+
+import {
+    CacheConstants,
+    ErrorMessages
+} from "./Constants";
+
+type SerializedCache = {
+    [section: string]: {
+        [key: string]: {
+            home_account_id?: string
+        }
+    }
+};
+
+// keeps track of the partition (i.e. user) that each cache access is made for
+const partitionContext = new AsyncLocalStorage<string>();
+
+// number of operations in flight for each partition, whose entries are kept in memory
+const activePartitions = new Map<string, number>();
+
+/**
+ * Cache plugin that persists MSAL token cache to a given key-value store, partitioned
+ * by homeAccountId. Each cache access loads the partition of the user that the access
+ * is made for (see runWithPartition), while in-memory cache only keeps the partitions
+ * of operations in flight, as MSAL reads in-memory cache directly during silent flows.
+ */
+export class PartitionedCachePlugin implements ICachePlugin {
+    private cacheStore: ICacheStore;
+
+    /**
+     * @param {ICacheStore} cacheStore: key-value store to persist partitions to
+     * @constructor
+     */
+    constructor(cacheStore: ICacheStore) {
+        this.cacheStore = cacheStore;
+    }
+
+    /**
+     * Runs a given function (e.g. a token request) with the
+     * cache partition of a given user
+     * @param {string} partitionKey: homeAccountId of the user
+     * @param {Function} callback: function that accesses the token cache
+     * @returns {Promise}
+     */
+    static runWithPartition = async <T>(partitionKey: string, callback: () => Promise<T>): Promise<T> => {
+        const key = partitionKey || CacheConstants.APP_PARTITION_KEY;
+
+        activePartitions.set(key, (activePartitions.get(key) || 0) + 1);
+
+        try {
+            return await partitionContext.run(key, callback);
+        } finally {
+            const count = activePartitions.get(key) - 1;
+
+            if (count > 0) {
+                activePartitions.set(key, count);
+            } else {
+                activePartitions.delete(key);
+            }
+        }
+    };
+
+    /**
+     * Loads the partition of the current user to in-memory cache, keeping only
+     * the partitions of other operations in flight, which may still read them
+     * @param {TokenCacheContext} cacheContext
+     * @returns {Promise}
+     */
+    beforeCacheAccess = async (cacheContext: TokenCacheContext): Promise<void> => {
+        const partitionKey = partitionContext.getStore();
+        const inMemoryPartitions = PartitionedCachePlugin.partitionCache(JSON.parse(cacheContext.tokenCache.serialize()));
+
+        const caches = Object.keys(inMemoryPartitions)
+            .filter((key) => key !== partitionKey && activePartitions.has(key))
+            .map((key) => inMemoryPartitions[key]);
+
+        if (partitionKey) {
+            try {
+                const partition = await this.cacheStore.get(partitionKey);
+
+                if (partition) {
+                    caches.push(JSON.parse(partition));
+                }
+            } catch (error) {
+                Logger.logError(ErrorMessages.CACHE_NOT_READ);
+                console.log(error);
+            }
+        }
+
+        cacheContext.tokenCache.deserialize(JSON.stringify(PartitionedCachePlugin.mergeCaches(caches)));
+    };
+
+    /**
+     * Splits in-memory cache by homeAccountId and persists the partition of the current user,
+     * as well as partitions that were not loaded for this access (e.g. of a user signing in)
+     * @param {TokenCacheContext} cacheContext
+     * @returns {Promise}
+     */
+    afterCacheAccess = async (cacheContext: TokenCacheContext): Promise<void> => {
+        if (!cacheContext.cacheHasChanged) {
+            return;
+        }
+
+        const partitionKey = partitionContext.getStore();
+        const partitions = PartitionedCachePlugin.partitionCache(JSON.parse(cacheContext.tokenCache.serialize()));
+
+        try {
+            for (const key of Object.keys(partitions)) {
+                if (key === partitionKey) {
+                    await this.cacheStore.set(key, JSON.stringify(partitions[key]));
+                } else if (key !== CacheConstants.APP_PARTITION_KEY && !activePartitions.has(key)) {
+                    /**
+                     * Partition was not loaded, so its stored entries are kept. The store merges atomically,
+                     * as other instances may write the same partition meanwhile. Entries without an account
+                     * (e.g. on-behalf-of tokens) are only persisted when the app partition is loaded
+                     */
+                    await this.cacheStore.update(key, (storedPartition) => JSON.stringify(PartitionedCachePlugin.mergeCaches([
+                        ...(storedPartition ? [JSON.parse(storedPartition)] : []),
+                        partitions[key],
+                    ])));
+                }
+            }
+
+            // current user's account was removed e.g. during sign-out
+            if (partitionKey && !partitions[partitionKey]) {
+                await this.cacheStore.remove(partitionKey);
+            }
+        } catch (error) {
+            Logger.logError(ErrorMessages.CACHE_NOT_WRITTEN);
+            console.log(error);
+        }
+    };
+
+    /**
+     * Merges serialized caches section by section, later caches taking precedence
+     * @param {Array} caches: serialized caches in MSAL cache schema
+     * @returns {Object}
+     */
+    static mergeCaches = (caches: SerializedCache[]): SerializedCache => {
+        const mergedCache: SerializedCache = { ...CacheConstants.EMPTY_CACHE };
+
+        caches.forEach((cache) => {
+            Object.keys(cache).forEach((section) => {
+                mergedCache[section] = {
+                    ...mergedCache[section],
+                    ...cache[section],
+                };
+            });
+        });
+
+        return mergedCache;
+    };
+
+    /**
+     * Splits a serialized cache into partitions by homeAccountId.
+     * Entries without an account (e.g. app tokens) are kept in their own partition
+     * @param {Object} cache: serialized cache in MSAL cache schema
+     * @returns {Object}
+     */
+    static partitionCache = (cache: SerializedCache): { [partitionKey: string]: SerializedCache } => {
+        const partitions = {};
+
+        CacheConstants.ACCOUNT_SECTIONS.forEach((section) => {
+            Object.entries(cache[section] || {}).forEach(([key, entry]) => {
+                const partitionKey = entry.home_account_id || CacheConstants.APP_PARTITION_KEY;
+
+                if (!partitions[partitionKey]) {
+                    partitions[partitionKey] = {
+                        ...CacheConstants.EMPTY_CACHE,
+                        AppMetadata: cache.AppMetadata || {},
+                    };
+                }
+
+                partitions[partitionKey][section] = {
+                    ...partitions[partitionKey][section],
+                    [key]: entry,
+                };
+            });
+        });
+
+        return partitions;
+    };
+}
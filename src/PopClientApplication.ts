@@ -0,0 +1,70 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import {
+    AuthenticationScheme,
+    AzureRegionConfiguration,
+    BaseAuthRequest,
+    ClientConfiguration,
+    ServerTelemetryManager
+} from "@azure/msal-common";
+
+import {
+    ConfidentialClientApplication,
+    Configuration
+} from "@azure/msal-node";
+
+import { PopCryptoProvider } from "./PopCryptoProvider";
+
+/**
+ * Creates confidential client applications that acquire proof-of-possession (PoP) tokens for
+ * requests with the PoP authentication scheme. MSAL Node resets the scheme of each request
+ * to bearer, and does not implement the crypto operations that PoP requires, so the created
+ * application keeps the scheme and provides those operations (see PopCryptoProvider).
+ */
+export class PopClientApplication {
+
+    /**
+     * Creates a confidential client application with PoP support. The methods involved are
+     * replaced on the instance, as a subclass transpiled to ES5 cannot extend MSAL Node classes
+     * @param {Configuration} configuration: MSAL Node configuration
+     * @returns {ConfidentialClientApplication}
+     */
+    static create = (configuration: Configuration): ConfidentialClientApplication => {
+        const clientApplication = new ConfidentialClientApplication(configuration);
+        const popCryptoProvider = new PopCryptoProvider();
+
+        const initializeBaseRequest = clientApplication["initializeBaseRequest"].bind(clientApplication);
+        const buildOauthClientConfiguration = clientApplication["buildOauthClientConfiguration"].bind(clientApplication);
+
+        // initializes requests as MSAL Node does, keeping the PoP authentication scheme
+        clientApplication["initializeBaseRequest"] = (authRequest: Partial<BaseAuthRequest>): BaseAuthRequest => {
+            // MSAL Node sets the scheme of the given request to bearer, hence the copy
+            const baseRequest = initializeBaseRequest({ ...authRequest });
+
+            if (authRequest.authenticationScheme === AuthenticationScheme.POP) {
+                baseRequest.authenticationScheme = AuthenticationScheme.POP;
+            }
+
+            return baseRequest;
+        };
+
+        // builds the configuration of MSAL clients as MSAL Node does, with the PoP crypto provider
+        clientApplication["buildOauthClientConfiguration"] = async (
+            authority: string,
+            serverTelemetryManager?: ServerTelemetryManager,
+            azureRegionConfiguration?: AzureRegionConfiguration
+        ): Promise<ClientConfiguration> => {
+            const clientConfiguration = await buildOauthClientConfiguration(authority, serverTelemetryManager, azureRegionConfiguration);
+
+            return {
+                ...clientConfiguration,
+                cryptoInterface: popCryptoProvider,
+            };
+        };
+
+        return clientApplication;
+    };
+}
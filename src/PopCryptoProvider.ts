@@ -0,0 +1,113 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+
+import {
+    ICrypto,
+    PkceCodes,
+    SignedHttpRequest
+} from "@azure/msal-common";
+
+import { CryptoProvider } from "@azure/msal-node";
+
+import { CryptoUtils } from "./CryptoUtils";
+
+import { JsonWebKey } from "./Types";
+
+import {
+    ErrorMessages,
+    PopConstants
+} from "./Constants";
+
+type PopKey = {
+    privateKey: string; // PEM encoded
+    publicJwk: JsonWebKey;
+    thumbprint: string;
+};
+
+/**
+ * Crypto provider implementing the proof-of-possession (PoP) operations that MSAL Node
+ * leaves out. Tokens are bound to an RSA key pair that is generated on first use and kept
+ * in memory, and signed HTTP requests (SHR) are signed with it. Other operations are
+ * delegated to the crypto provider of MSAL Node.
+ */
+export class PopCryptoProvider implements ICrypto {
+    private cryptoProvider: CryptoProvider = new CryptoProvider();
+    private popKey: PopKey;
+
+    createNewGuid(): string {
+        return this.cryptoProvider.createNewGuid();
+    };
+
+    base64Encode(input: string): string {
+        return this.cryptoProvider.base64Encode(input);
+    };
+
+    base64Decode(input: string): string {
+        return this.cryptoProvider.base64Decode(input);
+    };
+
+    generatePkceCodes(): Promise<PkceCodes> {
+        return this.cryptoProvider.generatePkceCodes();
+    };
+
+    /**
+     * Gets the thumbprint of the key that tokens are bound to, which
+     * MSAL sends in the req_cnf parameter of token requests
+     * @returns {Promise}
+     */
+    async getPublicKeyThumbprint(): Promise<string> {
+        return this.getPopKey().thumbprint;
+    };
+
+    /**
+     * Signs a signed HTTP request with the key of a given thumbprint (i.e. the cnf claim of
+     * the access token in it), adding the public key for the resource to verify the signature
+     * @param {SignedHttpRequest} payload: access token and the request it is bound to
+     * @param {string} kid: thumbprint of the key the access token is bound to
+     * @returns {Promise}
+     */
+    async signJwt(payload: SignedHttpRequest, kid: string): Promise<string> {
+        const popKey = this.getPopKey();
+
+        // e.g. a token cached by another instance of the app, or before a restart
+        if (kid !== popKey.thumbprint) {
+            throw new Error(`${ErrorMessages.POP_KEY_NOT_FOUND} ${kid}`);
+        }
+
+        return jwt.sign({ ...payload, cnf: { jwk: popKey.publicJwk } }, popKey.privateKey, {
+            algorithm: PopConstants.ALGORITHM as jwt.Algorithm,
+            header: {
+                alg: PopConstants.ALGORITHM,
+                typ: PopConstants.TOKEN_TYPE,
+                kid: kid,
+            },
+        });
+    };
+
+    /**
+     * Gets the key pair that tokens are bound to, generating it if needed
+     * @returns {PopKey}
+     */
+    private getPopKey(): PopKey {
+        if (!this.popKey) {
+            const { publicKey, privateKey } = crypto.generateKeyPairSync("rsa", {
+                modulusLength: PopConstants.MODULUS_LENGTH,
+            });
+
+            const publicJwk = CryptoUtils.getJwkFromPublicKey(publicKey);
+
+            this.popKey = {
+                privateKey: privateKey.export({ type: "pkcs8", format: "pem" }) as string,
+                publicJwk: publicJwk,
+                thumbprint: CryptoUtils.getJwkThumbprint(publicJwk),
+            };
+        }
+
+        return this.popKey;
+    };
+}
@@ -5,6 +5,7 @@
 
 import jwt from "jsonwebtoken";
 import jwksClient from "jwks-rsa";
+import fs from "fs";
 
 import { 
     StringUtils, 
@@ -15,22 +16,39 @@ import {
 import { Configuration } from "@azure/msal-node";
 
 import { Logger } from "./Logger";
+import { ConfigurationUtils } from "./ConfigurationUtils";
+import { CryptoUtils } from "./CryptoUtils";
 
 import { 
     AppSettings,
-    Resource, 
+    Policy,
     IdTokenClaims, 
-    AccessTokenClaims 
+    AccessTokenClaims,
+    LogoutTokenClaims,
+    JsonWebKey,
+    SignedHttpRequestClaims,
+    HttpRequestInfo,
+    ValidationOptions,
+    ValidationResult
 } from "./Types";
 
 import { 
     ErrorMessages, 
-    AADAuthorityConstants 
+    AADAuthorityConstants,
+    AADIssuerTemplates,
+    LogoutConstants,
+    PopConstants,
+    SigningKeyConstants,
+    TokenValidationConstants
 } from "./Constants";
 
 export class TokenValidator {
     private appSettings: AppSettings;
     private msalConfig: Configuration;
+    private jwksClients: Map<string, jwksClient.JwksClient> = new Map();
+    private localSigningKeys: JsonWebKey[];
+    private seenSignedHttpRequests: Map<string, number> = new Map(); // hash to expiry
+    private seenLogoutTokens: Map<string, number> = new Map(); // jti to expiry
 
     /**
      * @param {AppSettings} appSettings 
@@ -68,7 +86,7 @@ export class TokenValidator {
         let keys;
 
         try {
-            keys = await this.getSigningKeys(decodedToken.header, decodedToken.payload.tid);
+            keys = await this.getSigningKeys(decodedToken.header, decodedToken.payload);
         } catch (error) {
             Logger.logError(ErrorMessages.KEYS_NOT_OBTAINED);
             console.log(error);
@@ -79,40 +97,91 @@ export class TokenValidator {
         let verifiedToken: TokenClaims;
 
         try {
-            verifiedToken = jwt.verify(authToken, keys);
-
-            /**
-             * if a multiplexer was used in place of tenantId i.e. if the app
-             * is multi-tenant, the tenantId should be obtained from the user"s
-             * token"s tid claim for verification purposes
-             */
-            if (
-                this.appSettings.appCredentials.tenantId === AADAuthorityConstants.COMMON ||
-                this.appSettings.appCredentials.tenantId === AADAuthorityConstants.ORGANIZATIONS ||
-                this.appSettings.appCredentials.tenantId === AADAuthorityConstants.CONSUMERS
-            ) {
-                this.appSettings.appCredentials.tenantId = decodedToken.payload.tid;
-            }
-
-            return verifiedToken;
+            verifiedToken = jwt.verify(authToken, keys, {
+                algorithms: this.getValidationOptions().algorithms as jwt.Algorithm[],
+                clockTolerance: this.getValidationOptions().clockSkew,
+            }) as TokenClaims;
         } catch (error) {
             Logger.logError(ErrorMessages.TOKEN_NOT_VERIFIED);
             console.log(error);
             return false;
         }
+
+        // run custom onboarding checks for the user's tenant, if any
+        if (this.isMultiTenant() && this.appSettings.tenantRestrictions?.isTenantAllowed) {
+            try {
+                if (!(await this.appSettings.tenantRestrictions.isTenantAllowed(verifiedToken.tid))) {
+                    Logger.logError(`${ErrorMessages.TENANT_NOT_ALLOWED} ${verifiedToken.tid}`);
+                    return false;
+                }
+            } catch (error) {
+                Logger.logError(`${ErrorMessages.TENANT_NOT_ALLOWED} ${verifiedToken.tid}`);
+                console.log(error);
+                return false;
+            }
+        }
+
+        return verifiedToken;
+    };
+
+    /**
+     * Validates the issuer of a token against accepted issuers, which are obtained from issuer
+     * templates using the token's tid claim if the app is multi-tenant i.e. a multiplexer
+     * (e.g. common) was used in place of tenantId, or using tenantId otherwise
+     * @param {TokenClaims} tokenClaims: decoded token claims
+     * @param {Array} defaultIssuers: issuer templates accepted if none are configured
+     * @returns {boolean}
+     */
+    validateIssuer(tokenClaims: TokenClaims, defaultIssuers: string[] = [AADIssuerTemplates.V2]): boolean {
+        if (StringUtils.isEmpty(tokenClaims.iss)) {
+            return false;
+        }
+
+        const issuers = this.appSettings.validationOptions?.issuers;
+
+        // issuers of single-tenant apps vary by endpoint version and cloud (e.g. B2C)
+        if (!this.isMultiTenant() && !issuers) {
+            return tokenClaims.iss.includes(this.appSettings.appCredentials.tenantId);
+        }
+
+        const tenantId = this.isMultiTenant() ? tokenClaims.tid : this.appSettings.appCredentials.tenantId;
+
+        if (StringUtils.isEmpty(tenantId)) {
+            return false;
+        }
+
+        const acceptedIssuers = (issuers || defaultIssuers)
+            .map((issuer) => issuer.replace(AADIssuerTemplates.TENANT_ID_PLACEHOLDER, tenantId));
+
+        if (!acceptedIssuers.includes(tokenClaims.iss)) {
+            return false;
+        }
+
+        if (!this.isMultiTenant()) {
+            return true;
+        }
+
+        return this.isTenantAllowed(tokenClaims.tid);
     };
 
     /**
      * Verifies the access token for signature
      * @param {string} idToken: raw Id token
+     * @param {string} nonce: nonce sent in the authorization request, if any
      * @returns {Promise}
      */
-     async validateIdToken(idToken: string): Promise<boolean> {
+     async validateIdToken(idToken: string, nonce?: string): Promise<boolean> {
         try {
             const verifiedToken = await this.verifyTokenSignature(idToken);
 
             if (verifiedToken) {
-                return this.validateIdTokenClaims(verifiedToken as IdTokenClaims);
+                const result = this.validateIdTokenClaims(verifiedToken as IdTokenClaims, nonce);
+
+                if (!result.isValid) {
+                    Logger.logError(`${ErrorMessages.TOKEN_CHECKS_FAILED} ${result.failedChecks.join(", ")}`);
+                }
+
+                return result.isValid;
             } else {
                 return false;
             }
@@ -125,35 +194,105 @@ export class TokenValidator {
     /**
      * Validates the id token for a set of claims
      * @param {IdTokenClaims} idTokenClaims: decoded id token claims
-     * @returns {boolean}
+     * @param {string} nonce: nonce sent in the authorization request, if any
+     * @returns {ValidationResult}
      */
-    validateIdTokenClaims(idTokenClaims: IdTokenClaims): boolean {
-        const now = Math.round(new Date().getTime() / 1000); // in UNIX format
-
+    validateIdTokenClaims(idTokenClaims: IdTokenClaims, nonce?: string): ValidationResult {
         /**
          * At the very least, check for issuer, audience, issue and expiry dates.
          * For more information on validating id tokens, visit:
          * https://docs.microsoft.com/azure/active-directory/develop/id-tokens#validating-an-id_token
          */
-        const checkIssuer = idTokenClaims.iss.includes(this.appSettings.appCredentials.tenantId) ? true : false;
-        const checkAudience = idTokenClaims.aud === this.msalConfig.auth.clientId ? true : false;
-        const checkTimestamp = idTokenClaims.iat <= now && idTokenClaims.exp >= now ? true : false;
+        return this.getValidationResult({
+            [TokenValidationConstants.CHECKS.ISSUER]: this.validateIssuer(idTokenClaims),
+            [TokenValidationConstants.CHECKS.AUDIENCE]: idTokenClaims.aud === this.msalConfig.auth.clientId,
+            ...this.validateTimestamps(idTokenClaims),
+            [TokenValidationConstants.CHECKS.REQUIRED_CLAIMS]: this.validateRequiredClaims(idTokenClaims),
+            // binds the id token to the authorization request, so that it cannot be injected into another session
+            ...(nonce !== undefined) && {
+                [TokenValidationConstants.CHECKS.NONCE]: idTokenClaims.nonce === nonce,
+            },
+        });
+    };
+
+    /**
+     * Verifies the logout token for signature and validates its claims
+     * @param {string} logoutToken: raw logout token
+     * @returns {Promise}
+     */
+    async validateLogoutToken(logoutToken: string): Promise<LogoutTokenClaims | boolean> {
+        try {
+            const verifiedToken = await this.verifyTokenSignature(logoutToken);
+
+            if (!verifiedToken || !this.validateLogoutTokenClaims(verifiedToken as LogoutTokenClaims)) {
+                return false;
+            }
+
+            const { iss, jti, iat } = verifiedToken as LogoutTokenClaims;
+
+            // each logout token is accepted only once, until it is too old to pass validation anyway
+            if (this.isReplayed(this.seenLogoutTokens, `${iss}:${jti}`, iat + LogoutConstants.MAX_AGE + this.getValidationOptions().clockSkew)) {
+                Logger.logError(ErrorMessages.LOGOUT_TOKEN_REPLAYED);
+                return false;
+            }
 
-        return checkIssuer && checkAudience && checkTimestamp;
+            return verifiedToken as LogoutTokenClaims;
+        } catch (error) {
+            console.log(error);
+            return false;
+        }
+    };
+
+    /**
+     * Validates the logout token for a set of claims. For more information, visit:
+     * https://openid.net/specs/openid-connect-backchannel-1_0.html#Validation
+     * @param {LogoutTokenClaims} logoutTokenClaims: decoded logout token claims
+     * @returns {boolean}
+     */
+    validateLogoutTokenClaims(logoutTokenClaims: LogoutTokenClaims): boolean {
+        const now = Math.round(new Date().getTime() / 1000); // in UNIX format
+        const clockSkew = this.getValidationOptions().clockSkew;
+        const iat = logoutTokenClaims.iat;
+
+        const checkIssuer = this.validateIssuer(logoutTokenClaims);
+        const checkAudience = logoutTokenClaims.aud === this.msalConfig.auth.clientId ? true : false;
+
+        // logout tokens are sent right after sign-out, so old ones are rejected
+        const checkTimestamp = typeof iat === "number"
+            && iat - clockSkew <= now
+            && iat + LogoutConstants.MAX_AGE + clockSkew >= now
+            && (logoutTokenClaims.exp === undefined || logoutTokenClaims.exp + clockSkew >= now);
+
+        // jti is required to detect replayed logout tokens
+        const checkTokenId = !StringUtils.isEmpty(logoutTokenClaims.jti);
+
+        // logout token must identify the session or the user, and must not be mistaken for an id token
+        const checkSubject = logoutTokenClaims.sid || logoutTokenClaims.sub ? true : false;
+        const checkEvents = logoutTokenClaims.events && logoutTokenClaims.events.hasOwnProperty(LogoutConstants.BACK_CHANNEL_LOGOUT_EVENT) ? true : false;
+        const checkNonce = logoutTokenClaims.nonce === undefined ? true : false;
+
+        return checkIssuer && checkAudience && checkTimestamp && checkTokenId && checkSubject && checkEvents && checkNonce;
     };
 
     /**
      * Verifies the access token for signature
      * @param {string} accessToken: raw JWT token
      * @param {string} protectedRoute: used for checking scope
+     * @param {string} method: HTTP method of the request
      * @returns {Promise}
      */
-     async verifyAccessTokenSignature(accessToken: string, protectedRoute: string): Promise<boolean> {
+     async verifyAccessTokenSignature(accessToken: string, protectedRoute: string, method?: string): Promise<boolean> {
         try {
             const verifiedToken = await this.verifyTokenSignature(accessToken);
 
             if (verifiedToken) {
-                return this.validateAccessTokenClaims(verifiedToken as AccessTokenClaims, protectedRoute);
+                const result = this.validateAccessTokenClaims(verifiedToken as AccessTokenClaims, protectedRoute, method);
+
+                if (!result.isValid) {
+                    Logger.logError(`${ErrorMessages.TOKEN_CHECKS_FAILED} ${result.failedChecks.join(", ")}`);
+                }
+
+                return result.isValid;
             } else {
                 return false;
             }
@@ -167,49 +306,437 @@ export class TokenValidator {
      * Validates the access token for a set of claims
      * @param {TokenClaims} verifiedToken: token with a verified signature
      * @param {string} protectedRoute: route where this token is required to access
-     * @returns {boolean}
+     * @param {string} method: HTTP method of the request
+     * @returns {ValidationResult}
      */
-    validateAccessTokenClaims(verifiedToken: AccessTokenClaims, protectedRoute: string): boolean {
-        const now = Math.round(new Date().getTime() / 1000); // in UNIX format
+    validateAccessTokenClaims(verifiedToken: AccessTokenClaims, protectedRoute: string, method?: string): ValidationResult {
+        const clientId = this.appSettings.appCredentials.clientId;
+        const audiences = this.getValidationOptions().audiences || [clientId, `${TokenValidationConstants.APP_ID_URI_PREFIX}${clientId}`];
 
         /**
          * At the very least, validate the token with respect to issuer, audience, scope
-         * and timestamp, though implementation and extent vary. For more information, visit:
+         * and timestamp, though implementation and extent vary. Access tokens may be issued
+         * by v1 or v2 endpoint, depending on the web API's manifest. For more information, visit:
          * https://docs.microsoft.com/azure/active-directory/develop/access-tokens#validating-tokens
          */
-        const checkIssuer = verifiedToken.iss.includes(this.appSettings.appCredentials.tenantId) ? true : false;
-        const checkTimestamp = verifiedToken.iat <= now && verifiedToken.iat >= now ? true : false;
+        return this.getValidationResult({
+            [TokenValidationConstants.CHECKS.ISSUER]: this.validateIssuer(verifiedToken, [AADIssuerTemplates.V2, AADIssuerTemplates.V1]),
+            [TokenValidationConstants.CHECKS.AUDIENCE]: audiences.includes(verifiedToken.aud),
+            ...this.validateTimestamps(verifiedToken),
+            [TokenValidationConstants.CHECKS.REQUIRED_CLAIMS]: this.validateRequiredClaims(verifiedToken),
+            [TokenValidationConstants.CHECKS.PERMISSIONS]: this.validateAccessTokenPermissions(verifiedToken, protectedRoute, method),
+        });
+    };
+
+    /**
+     * Validates the access token for the permissions required by the owned resource of a route.
+     * Tokens on behalf of a user must have all scopes of the resource (scp claim), whereas tokens
+     * of apps without a user must have any of the app permissions of the resource (roles claim)
+     * @param {AccessTokenClaims} verifiedToken: token with a verified signature
+     * @param {string} protectedRoute: route where this token is required to access
+     * @param {string} method: HTTP method of the request
+     * @returns {boolean}
+     */
+    validateAccessTokenPermissions(verifiedToken: AccessTokenClaims, protectedRoute: string, method?: string): boolean {
+        const resource = ConfigurationUtils.getOwnedResource(this.appSettings, protectedRoute, method);
+
+        if (!resource) {
+            Logger.logError(`${ErrorMessages.OWNED_RESOURCE_NOT_FOUND} ${protectedRoute}`);
+            return false;
+        }
+
+        if (verifiedToken.scp) {
+            // scp is a space-separated string, and scopes are compared without the resource URI prefix
+            const grantedScopes = verifiedToken.scp.split(" ");
 
-        const checkAudience = verifiedToken.aud === this.appSettings.appCredentials.clientId ||
-            verifiedToken.aud === "api://" + this.appSettings.appCredentials.clientId ? true : false;
+            return resource.scopes
+                .map((scope) => scope.substring(scope.lastIndexOf("/") + 1))
+                .every((scope) => grantedScopes.includes(scope));
+        }
 
-        const checkScopes = Object.values(this.appSettings.ownedResources).find((resource: Resource) => resource.endpoint === protectedRoute)
-            .scopes.every(scp => verifiedToken.scp.includes(scp));
+        if (verifiedToken.roles && resource.roles) {
+            return resource.roles.some((role) => verifiedToken.roles.includes(role));
+        }
 
-        return checkAudience && checkIssuer && checkTimestamp && checkScopes;
+        return false;
     };
 
     /**
-     * Fetches signing keys of an access token
-     * from the authority discovery endpoint
+     * Verifies a signed HTTP request (SHR) carrying a proof-of-possession access token. The SHR
+     * must be signed with the key in its cnf claim, the access token must be valid and bound to
+     * the same key, and the SHR must match the request and be used only once within the replay window
+     * @param {string} signedHttpRequest: raw SHR from the authorization header
+     * @param {HttpRequestInfo} httpRequest: method, host and path of the incoming request
+     * @param {string} protectedRoute: used for checking scope
+     * @returns {Promise}
+     */
+    async verifySignedHttpRequest(signedHttpRequest: string, httpRequest: HttpRequestInfo, protectedRoute: string): Promise<boolean> {
+        let signedHttpRequestClaims: SignedHttpRequestClaims;
+
+        try {
+            const decoded = jwt.decode(signedHttpRequest) as SignedHttpRequestClaims;
+
+            if (!decoded || !decoded.at || !decoded.cnf || !decoded.cnf.jwk) {
+                Logger.logError(ErrorMessages.INVALID_SIGNED_HTTP_REQUEST);
+                return false;
+            }
+
+            const publicKey = CryptoUtils.getPublicKeyFromJwk(decoded.cnf.jwk)
+                .export({ type: "spki", format: "pem" });
+
+            signedHttpRequestClaims = jwt.verify(signedHttpRequest, publicKey, {
+                algorithms: this.getValidationOptions().algorithms as jwt.Algorithm[],
+            }) as SignedHttpRequestClaims;
+        } catch (error) {
+            Logger.logError(ErrorMessages.INVALID_SIGNED_HTTP_REQUEST);
+            console.log(error);
+            return false;
+        }
+
+        try {
+            const verifiedToken = await this.verifyTokenSignature(signedHttpRequestClaims.at);
+
+            if (!verifiedToken) {
+                return false;
+            }
+
+            const tokenResult = this.validateAccessTokenClaims(verifiedToken as AccessTokenClaims, protectedRoute, httpRequest.method);
+            const requestResult = this.validateSignedHttpRequestClaims(signedHttpRequestClaims, verifiedToken as AccessTokenClaims, httpRequest);
+
+            const failedChecks = [...tokenResult.failedChecks, ...requestResult.failedChecks];
+
+            const replayKey = CryptoUtils.hash(signedHttpRequest);
+
+            if (failedChecks.length === 0 && this.isReplayed(this.seenSignedHttpRequests, replayKey, signedHttpRequestClaims.ts + this.getReplayWindow())) {
+                failedChecks.push(TokenValidationConstants.CHECKS.REPLAY);
+            }
+
+            if (failedChecks.length > 0) {
+                Logger.logError(`${ErrorMessages.TOKEN_CHECKS_FAILED} ${failedChecks.join(", ")}`);
+                return false;
+            }
+
+            return true;
+        } catch (error) {
+            console.log(error);
+            return false;
+        }
+    };
+
+    /**
+     * Validates a signed HTTP request for its binding to the access token (cnf)
+     * and to the incoming request (m, u, p), and for its timestamp (ts)
+     * @param {SignedHttpRequestClaims} signedHttpRequestClaims: SHR with a verified signature
+     * @param {AccessTokenClaims} verifiedToken: access token inside the SHR, with a verified signature
+     * @param {HttpRequestInfo} httpRequest: method, host and path of the incoming request
+     * @returns {ValidationResult}
+     */
+    validateSignedHttpRequestClaims(signedHttpRequestClaims: SignedHttpRequestClaims, verifiedToken: AccessTokenClaims, httpRequest: HttpRequestInfo): ValidationResult {
+        const now = Math.round(new Date().getTime() / 1000); // in UNIX format
+        const ts = signedHttpRequestClaims.ts;
+
+        return this.getValidationResult({
+            [TokenValidationConstants.CHECKS.CNF]: this.validateKeyBinding(signedHttpRequestClaims, verifiedToken),
+            [TokenValidationConstants.CHECKS.METHOD]: !!signedHttpRequestClaims.m
+                && signedHttpRequestClaims.m.toUpperCase() === httpRequest.method.toUpperCase(),
+            [TokenValidationConstants.CHECKS.HOST]: !!signedHttpRequestClaims.u
+                && signedHttpRequestClaims.u.toLowerCase() === httpRequest.host.toLowerCase(),
+            [TokenValidationConstants.CHECKS.PATH]: typeof signedHttpRequestClaims.p === "string"
+                && this.normalizePath(signedHttpRequestClaims.p) === this.normalizePath(httpRequest.path),
+            [TokenValidationConstants.CHECKS.TIMESTAMP]: typeof ts === "number" && Math.abs(now - ts) <= this.getReplayWindow(),
+        });
+    };
+
+    /**
+     * Removes the trailing slash of a path, which MSAL adds to the path (p) of SHRs
+     * @param {string} path: path of a request
+     * @returns {string}
+     */
+    private normalizePath(path: string): string {
+        return path.length > 1 ? path.replace(/\/+$/, "") : path;
+    };
+
+    /**
+     * Checks if the key that signed an SHR is the key its access token is bound to,
+     * either by thumbprint (cnf.kid) or by the key itself (cnf.jwk)
+     * @param {SignedHttpRequestClaims} signedHttpRequestClaims: SHR with a verified signature
+     * @param {AccessTokenClaims} verifiedToken: access token inside the SHR
+     * @returns {boolean}
+     */
+    private validateKeyBinding(signedHttpRequestClaims: SignedHttpRequestClaims, verifiedToken: AccessTokenClaims): boolean {
+        if (!verifiedToken.cnf) {
+            return false;
+        }
+
+        try {
+            const thumbprint = CryptoUtils.getJwkThumbprint(signedHttpRequestClaims.cnf.jwk);
+
+            if (verifiedToken.cnf.kid) {
+                return verifiedToken.cnf.kid === thumbprint;
+            }
+
+            return !!verifiedToken.cnf.jwk && CryptoUtils.getJwkThumbprint(verifiedToken.cnf.jwk) === thumbprint;
+        } catch (error) {
+            Logger.logError(error.message);
+            return false;
+        }
+    };
+
+    /**
+     * Records a token (or signed request) until it expires, and checks if it was seen before
+     * @param {Map} seenTokens: tokens seen so far, with their expiry
+     * @param {string} key: unique key of the token e.g. its jti or hash
+     * @param {number} expiresAt: time (in UNIX format) after which the token fails validation anyway
+     * @returns {boolean}
+     */
+    private isReplayed(seenTokens: Map<string, number>, key: string, expiresAt: number): boolean {
+        const now = Math.round(new Date().getTime() / 1000); // in UNIX format
+
+        // prune tokens that would fail their timestamp checks anyway
+        seenTokens.forEach((seenExpiresAt, seenKey) => {
+            if (seenExpiresAt < now) {
+                seenTokens.delete(seenKey);
+            }
+        });
+
+        if (seenTokens.has(key)) {
+            return true;
+        }
+
+        seenTokens.set(key, expiresAt);
+        return false;
+    };
+
+    /**
+     * Gets the window (in seconds) within which signed HTTP requests are accepted
+     * @returns {number}
+     */
+    private getReplayWindow(): number {
+        const replayWindow = this.getValidationOptions().replayWindow;
+        return typeof replayWindow === "number" ? replayWindow : PopConstants.REPLAY_WINDOW;
+    };
+
+    /**
+     * Validates the expiry (exp), not before (nbf) and issue (iat) dates of a token,
+     * tolerating clock skew between this app and the authorization server
+     * @param {TokenClaims} tokenClaims: decoded token claims
+     * @returns {Object}
+     */
+    private validateTimestamps(tokenClaims: TokenClaims & { nbf?: number }): { [check: string]: boolean } {
+        const now = Math.round(new Date().getTime() / 1000); // in UNIX format
+        const clockSkew = this.getValidationOptions().clockSkew;
+
+        return {
+            [TokenValidationConstants.CHECKS.EXPIRATION]: typeof tokenClaims.exp === "number" && tokenClaims.exp + clockSkew >= now,
+            [TokenValidationConstants.CHECKS.NOT_BEFORE]: tokenClaims.nbf === undefined || tokenClaims.nbf - clockSkew <= now,
+            [TokenValidationConstants.CHECKS.ISSUED_AT]: typeof tokenClaims.iat === "number" && tokenClaims.iat - clockSkew <= now,
+        };
+    };
+
+    /**
+     * Checks if a token has all the claims required in validation options
+     * @param {TokenClaims} tokenClaims: decoded token claims
+     * @returns {boolean}
+     */
+    private validateRequiredClaims(tokenClaims: TokenClaims): boolean {
+        return (this.getValidationOptions().requiredClaims || [])
+            .every((claim) => tokenClaims[claim] !== undefined && tokenClaims[claim] !== null);
+    };
+
+    /**
+     * Collects the outcome of a set of checks into a validation result
+     * @param {Object} checks: outcome of each check, by name
+     * @returns {ValidationResult}
+     */
+    private getValidationResult(checks: { [check: string]: boolean }): ValidationResult {
+        const failedChecks = Object.keys(checks).filter((check) => !checks[check]);
+
+        return {
+            isValid: failedChecks.length === 0,
+            failedChecks: failedChecks,
+        };
+    };
+
+    /**
+     * Gets validation options from app settings, with defaults for clock skew and algorithms
+     * @returns {ValidationOptions}
+     */
+    private getValidationOptions(): ValidationOptions {
+        const options = this.appSettings.validationOptions || {};
+
+        return {
+            ...options,
+            clockSkew: typeof options.clockSkew === "number" ? options.clockSkew : TokenValidationConstants.CLOCK_SKEW,
+            algorithms: options.algorithms || TokenValidationConstants.ALGORITHMS,
+        };
+    };
+
+    /**
+     * Checks a tenant against the allowed and denied tenants in settings
+     * @param {string} tenantId: tid claim of a token
+     * @returns {boolean}
+     */
+    private isTenantAllowed(tenantId: string): boolean {
+        const tenantRestrictions = this.appSettings.tenantRestrictions;
+
+        if (tenantRestrictions?.deniedTenants && tenantRestrictions.deniedTenants.includes(tenantId)) {
+            Logger.logError(`${ErrorMessages.TENANT_NOT_ALLOWED} ${tenantId}`);
+            return false;
+        }
+
+        if (tenantRestrictions?.allowedTenants && !tenantRestrictions.allowedTenants.includes(tenantId)) {
+            Logger.logError(`${ErrorMessages.TENANT_NOT_ALLOWED} ${tenantId}`);
+            return false;
+        }
+
+        return true;
+    };
+
+    /**
+     * Checks if a multiplexer (e.g. common) was used in place of tenantId
+     * @returns {boolean}
+     */
+    private isMultiTenant(): boolean {
+        return Object.values(AADAuthorityConstants).includes(this.appSettings.appCredentials.tenantId);
+    };
+
+    /**
+     * Fetches signing keys of an access token, looking up local keys
+     * first and falling back to the authority discovery endpoint
      * @param {Object} header: token header
-     * @param {string} tid: tenant id
+     * @param {Object} payload: token payload
      * @returns {Promise}
      */
-    private async getSigningKeys(header, tid: string): Promise<string> {
+    private async getSigningKeys(header, payload): Promise<string> {
+        const localKey = this.getLocalSigningKey(header.kid);
+
+        if (localKey) {
+            return localKey;
+        }
+
         let jwksUri;
 
         // Check if a B2C application i.e. app has b2cPolicies
         if (this.appSettings.b2cPolicies) {
-            jwksUri = `${this.msalConfig.auth.authority}/discovery/v2.0/keys`;
+            jwksUri = `${this.getPolicyAuthority(payload)}/discovery/v2.0/keys`;
         } else {
-            jwksUri = `https://${Constants.DEFAULT_AUTHORITY_HOST}/${tid}/discovery/v2.0/keys`;
+            jwksUri = `https://${Constants.DEFAULT_AUTHORITY_HOST}/${this.getSigningKeyTenant(payload)}/discovery/v2.0/keys`;
         }
 
-        const client = jwksClient({
-            jwksUri: jwksUri,
-        });
+        return (await this.getJwksClient(jwksUri).getSigningKeyAsync(header.kid)).getPublicKey();
+    };
+
+    /**
+     * Gets the tenant whose discovery endpoint serves the signing keys of a token. The token
+     * is not verified yet, so its tid claim is used only in multi-tenant apps, and only if it
+     * is the GUID of an allowed tenant
+     * @param {Object} payload: token payload
+     * @returns {string}
+     */
+    private getSigningKeyTenant(payload): string {
+        if (!this.isMultiTenant()) {
+            return this.appSettings.appCredentials.tenantId;
+        }
+
+        if (!ConfigurationUtils.isGuid(payload.tid) || !this.isTenantAllowed(payload.tid)) {
+            throw new Error(`${ErrorMessages.TENANT_NOT_ALLOWED} ${payload.tid}`);
+        }
+
+        return payload.tid;
+    };
+
+    /**
+     * Gets the JWKS client of a given JWKS endpoint (i.e. issuer), creating it if needed.
+     * Clients cache signing keys until they expire, and fetch keys again (at a limited rate)
+     * only when a token is signed with an unknown key e.g. after key rollover. Clients of
+     * the least recently used endpoints are dropped, as multi-tenant apps may see many tenants
+     * @param {string} jwksUri: JWKS endpoint of the issuer
+     * @returns {JwksClient}
+     */
+    private getJwksClient(jwksUri: string): jwksClient.JwksClient {
+        let client = this.jwksClients.get(jwksUri);
+
+        if (client) {
+            // re-inserted below, as maps iterate in insertion order
+            this.jwksClients.delete(jwksUri);
+        } else {
+            const options = this.appSettings.signingKeys || {};
+
+            client = jwksClient({
+                jwksUri: jwksUri,
+                cache: true,
+                cacheMaxEntries: SigningKeyConstants.CACHE_MAX_ENTRIES,
+                cacheMaxAge: (options.cacheMaxAge || SigningKeyConstants.CACHE_MAX_AGE) * 1000, // in milliseconds
+                rateLimit: true,
+                jwksRequestsPerMinute: options.requestsPerMinute || SigningKeyConstants.REQUESTS_PER_MINUTE,
+            });
+        }
+
+        this.jwksClients.set(jwksUri, client);
+
+        if (this.jwksClients.size > SigningKeyConstants.MAX_JWKS_CLIENTS) {
+            this.jwksClients.delete(this.jwksClients.keys().next().value);
+        }
+
+        return client;
+    };
+
+    /**
+     * Finds a signing key supplied in memory or in a local JWKS file by its key id,
+     * and gets its certificate (x5c) or public key (n and e) in PEM format
+     * @param {string} kid: key id in token header
+     * @returns {string}
+     */
+    private getLocalSigningKey(kid: string): string | null {
+        const jwk = this.getLocalSigningKeys().find((key) => key.kid === kid && key.use !== "enc");
+
+        if (!jwk) {
+            return null;
+        }
+
+        if (jwk.x5c && jwk.x5c.length > 0) {
+            return `-----BEGIN CERTIFICATE-----\n${jwk.x5c[0].match(/.{1,64}/g).join("\n")}\n-----END CERTIFICATE-----\n`;
+        }
+
+        return CryptoUtils.getPublicKeyFromJwk(jwk).export({ type: "spki", format: "pem" }) as string;
+    };
+
+    /**
+     * Gets signing keys supplied in memory or in a local JWKS file, if any
+     * @returns {Array}
+     */
+    private getLocalSigningKeys(): JsonWebKey[] {
+        if (!this.localSigningKeys) {
+            const options = this.appSettings.signingKeys || {};
+            let fileKeys: JsonWebKey[] = [];
+
+            if (options.jwksFile) {
+                try {
+                    fileKeys = JSON.parse(fs.readFileSync(options.jwksFile, "utf8")).keys || [];
+                } catch (error) {
+                    Logger.logError(`${ErrorMessages.JWKS_FILE_NOT_READ} ${options.jwksFile}`);
+                    console.log(error);
+                }
+            }
+
+            this.localSigningKeys = [...(options.keys || []), ...fileKeys];
+        }
+
+        return this.localSigningKeys;
+    };
+
+    /**
+     * Finds the authority of the B2C policy that issued a token,
+     * using the tfp (or acr) claim in the token payload
+     * @param {Object} payload: token payload
+     * @returns {string}
+     */
+    private getPolicyAuthority(payload): string {
+        const policyName: string = payload.tfp || payload.acr;
+
+        const policy = policyName && Object.values(this.appSettings.b2cPolicies)
+            .find((policy: Policy) => policy.authority.toLowerCase().endsWith(policyName.toLowerCase()));
 
-        return (await client.getSigningKeyAsync(header.kid)).getPublicKey();
+        return policy ? policy.authority : this.msalConfig.auth.authority;
     };
 }
@@ -3,12 +3,25 @@
  * Licensed under the MIT License.
  */
 
-import { TokenClaims } from "@azure/msal-common";
+import { 
+    Request,
+    Response,
+    NextFunction
+} from "express";
+
+import { 
+    TokenClaims,
+    ServerError,
+    ResponseMode,
+    AuthenticationScheme,
+    CommonSilentFlowRequest
+} from "@azure/msal-common";
 
 import {
     AccountInfo,
     AuthorizationUrlRequest,
     AuthorizationCodeRequest,
+    SilentFlowRequest,
 } from "@azure/msal-node";
 
 // extending express Request object
@@ -19,18 +32,35 @@ declare module "express-session" {
         account: AccountInfo;
         nonce: string;
         isAuthenticated?: boolean;
+        sid?: string;
+        iss?: string;
         remoteResources?: {
             [resource: string]: Resource;
         };
+        claimsChallenges?: {
+            [resource: string]: string;
+        };
         ownedResources?: {
             [resource: string]: Resource;
         },
     }
 }
 
+// extending express Request object with tokens acquired without a session
+// i.e. via on-behalf-of or client credentials flow
+declare global {
+    namespace Express {
+        interface Request {
+            locals?: RequestResources;
+        }
+    }
+}
+
 export type AuthCodeParams = {
     authority: string;
     scopes: string[];
+    extraScopesToConsent?: string[];
+    claims?: string;
     state: string;
     redirect: string;
     prompt?: string;
@@ -40,12 +70,37 @@ export type AuthCodeParams = {
 export type State = {
     nonce: string;
     stage: string;
+    path?: string;
+    failurePath?: string;
+    issuedAt?: number;
+};
+
+export type RedirectParams = {
+    code?: string;
+    state?: string;
+    error?: string;
+    error_description?: string;
+    suberror?: string;
 };
 
 export type InitializationOptions = {
     saveCacheToDisk?: boolean;
     useSession?: boolean;
     customState?: Object;
+    responseMode?: ResponseMode; // query (default) or form_post
+    sessionStoreAdapter?: ISessionStoreAdapter; // used for back-channel logout
+    cookieSessionOptions?: CookieSessionOptions; // used when useSession is false
+    handleRedirectOptions?: HandleRedirectOptions;
+};
+
+export type CookieSessionOptions = {
+    name?: string;
+    maxAge?: number; // in seconds, extended on each request
+    absoluteTimeout?: number; // in seconds since the ticket was issued, not extended
+    secure?: boolean; // defaults to true on https requests
+    sameSite?: string;
+    domain?: string;
+    path?: string;
 };
 
 export type TokenRequestOptions = {
@@ -54,10 +109,32 @@ export type TokenRequestOptions = {
     skipCache?: boolean;
 };
 
+export type RequestResources = {
+    [resource: string]: Resource;
+};
+
+export type MultipleTokenRequestOptions = {
+    resources: Resource[];
+    skipCache?: boolean;
+};
+
 export type SignInOptions = {
     successRedirect: string;
     extraScopesToConsent?: string[];
+    resourcesToConsent?: string[]; // names of remote resources, defaults to all
     failureRedirect?: string;
+    policy?: string;
+}
+
+export type ConsentOptions = {
+    resources: string[]; // names of remote resources
+    successRedirect: string;
+    failureRedirect?: string;
+}
+
+export type UserFlowOptions = {
+    successRedirect: string;
+    policy?: string;
 }
 
 export type SignOutOptions = {
@@ -65,18 +142,78 @@ export type SignOutOptions = {
     failureRedirect?: string;
 }
 
+/**
+ * Interface for keeping an index of server-side sessions by the sid and sub
+ * claims of signed-in users, so that they can be terminated via back-channel logout
+ */
+export interface ISessionStoreAdapter {
+    addSession(keys: string[], sessionId: string, expiresAt?: number): Promise<void>; // expiresAt in UNIX format
+    getSessions(key: string): Promise<string[]>;
+    removeSession(sessionId: string): Promise<void>;
+}
+
+/**
+ * Interface for key-value stores (e.g. redis) that persist token cache
+ * partitions, to be used with PartitionedCachePlugin
+ */
+export interface ICacheStore {
+    get(key: string): Promise<string>;
+    set(key: string, value: string): Promise<void>;
+    remove(key: string): Promise<void>;
+    /**
+     * Replaces the value of a given key with the result of the updater, called with the
+     * current value (or null). Read and write must be atomic e.g. by holding a lock
+     */
+    update(key: string, updater: (value: string) => string): Promise<void>;
+}
+
 export type HandleRedirectOptions = {
-    // TODO: add options
+    /**
+     * Called when the authorization server responds with an error
+     * (e.g. access_denied, consent_required) instead of a code.
+     * Defaults to redirecting to the failureRedirect of the request, or the error route
+     */
+    onError?: (error: ServerError, req: Request, res: Response, next: NextFunction) => void | Promise<void>;
 };
 
 export type GuardOptions = {
-    accessRule: AccessRule
+    accessRule?: AccessRule;
+    authContext?: string;
+    /**
+     * How to respond when the request is rejected, i.e. redirect (web apps),
+     * api (web APIs) or auto (detected from request headers). Defaults to auto
+     */
+    responseType?: string;
+};
+
+export type AccessMatrixOptions = {
+    /**
+     * Path patterns (e.g. /admin) under which requests are denied
+     * unless a rule in the access matrix allows them
+     */
+    protectedPrefixes?: string[];
+    responseType?: string;
+};
+
+export type BearerChallenge = {
+    error?: string;
+    errorDescription?: string;
+    scope?: string;
+    claims?: string;
 };
 
 export type ValidationOptions = {
-    audience: string;
-    issuer: string;
-    scope: string;
+    audiences?: string[]; // accepted audiences of access tokens, compared literally. Defaults to clientId and its api:// URI
+    issuers?: string[]; // accepted issuers, where {tenantid} is replaced with tenantId or the token's tid claim
+    clockSkew?: number; // in seconds, tolerated when checking exp, nbf and iat claims
+    algorithms?: string[]; // accepted signing algorithms. Defaults to RS256
+    requiredClaims?: string[]; // claims that must be present in tokens
+    replayWindow?: number; // in seconds, within which signed HTTP requests (PoP) are accepted once
+};
+
+export type ValidationResult = {
+    isValid: boolean;
+    failedChecks: string[]; // names of failed checks e.g. audience
 };
 
 // ======= CONFIG ========
@@ -95,7 +232,12 @@ export type AppSettings = {
     },
     accessMatrix?: {
         [accessRule: string]: AccessRule
-    }
+    },
+    stateProtection?: StateProtection;
+    redirectAllowlist?: string[]; // origins allowed in addition to relative paths
+    tenantRestrictions?: TenantRestrictions; // for multi-tenant apps
+    signingKeys?: SigningKeyOptions; // for token validation
+    validationOptions?: ValidationOptions;
 };
 
 export type AppCredentials = {
@@ -124,6 +266,35 @@ export type AuthRoutes = {
     error: string;
     unauthorized: string;
     frontChannelLogout?: string;
+    backChannelLogout?: string;
+};
+
+export type TenantRestrictions = {
+    allowedTenants?: string[];
+    deniedTenants?: string[];
+    isTenantAllowed?: (tenantId: string) => boolean | Promise<boolean>; // custom onboarding checks
+};
+
+export type SigningKeyOptions = {
+    cacheMaxAge?: number; // in seconds
+    requestsPerMinute?: number; // max requests to each JWKS endpoint
+    jwksFile?: string; // path to a local JWKS file e.g. for air-gapped environments
+    keys?: JsonWebKey[]; // in-memory keys, looked up before local file and JWKS endpoint
+};
+
+export type JsonWebKey = {
+    kty: string;
+    kid?: string;
+    use?: string;
+    alg?: string;
+    n?: string;
+    e?: string;
+    x5c?: string[];
+};
+
+export type StateProtection = {
+    encryptionKeys: string[]; // current key first, retired keys after. Also used for cookie sessions
+    maxAge?: number; // in seconds
 };
 
 export type Policy = {
@@ -133,6 +304,18 @@ export type Policy = {
 export type Resource = {
     endpoint: string;
     scopes: string[];
+    /**
+     * For owned resources only: HTTP methods the resource applies to (defaults
+     * to all), and app permissions (app roles) any of which grants access to
+     * callers without a user i.e. daemons
+     */
+    methods?: string[];
+    roles?: string[];
+    /**
+     * For remote resources only: "pop" to acquire proof-of-possession tokens,
+     * returned in signed HTTP requests bound to GET requests to the endpoint
+     */
+    authenticationScheme?: AuthenticationScheme;
     accessToken?: string;
 };
 
@@ -163,7 +346,10 @@ export type UserInfo = {
  * Type which describes Id Token claims known by MSAL.
  */
 export type IdTokenClaims = TokenClaims & {
+    nbf?: number,
     aud?: string,
+    sid?: string,
+    login_hint?: string,
     roles?: string[],
     groups?: string[],
     _claim_names?: string[],
@@ -172,11 +358,28 @@ export type IdTokenClaims = TokenClaims & {
     acrs?: string[],
 };
 
+/**
+ * Type which describes Logout Token claims. For more information, visit:
+ * https://openid.net/specs/openid-connect-backchannel-1_0.html#LogoutToken
+ */
+export type LogoutTokenClaims = TokenClaims & {
+    aud?: string,
+    sid?: string,
+    jti?: string,
+    events?: {
+        [event: string]: Object
+    },
+};
+
 /**
  * Type which describes Access Token claims known by MSAL.
  */
 export type AccessTokenClaims = TokenClaims & {
-    scp?: string[],
+    nbf?: number,
+    cnf?: {
+        jwk?: JsonWebKey, // in addition to kid, for PoP tokens bound to a key
+    },
+    scp?: string, // space-separated
     aud?: string,
     roles?: string[],
     groups?: string[],
@@ -184,4 +387,30 @@ export type AccessTokenClaims = TokenClaims & {
     _claim_sources?: string[],
     xms_cc?: string,
     acrs?: string[],
-};
\ No newline at end of file
+};
+
+/**
+ * Type which describes claims of a Signed HTTP Request (SHR) used with PoP tokens.
+ * For more information, visit:
+ * https://tools.ietf.org/html/draft-ietf-oauth-signed-http-request-03
+ */
+export type SignedHttpRequestClaims = {
+    at: string,
+    ts: number,
+    m?: string,
+    u?: string,
+    p?: string,
+    nonce?: string,
+    cnf: {
+        jwk: JsonWebKey,
+    },
+};
+
+export type HttpRequestInfo = {
+    method: string;
+    host: string;
+    path: string;
+};
+
+// typings of MSAL Node leave out the request that proof-of-possession tokens are bound to
+export type PopSilentFlowRequest = SilentFlowRequest & Pick<CommonSilentFlowRequest, "resourceRequestMethod" | "resourceRequestUri">;
@@ -35,4 +35,81 @@ export class UrlUtils {
         const urlComponents: IUri = new UrlString(url).getUrlComponents();
         return `/${urlComponents.PathSegments.join("/")}`;
     };
+
+    /**
+     * Escapes a given string for safe use in HTML content and attributes
+     * @param {string} text: a given string
+     * @returns {string}
+     */
+    static escapeHtml = (text: string): string => {
+        return String(text)
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&#39;");
+    };
+
+    /**
+     * Checks if a given URL is safe to redirect to i.e. it is either a relative
+     * path on this app, or an absolute URL whose origin is explicitly allowed
+     * @param {string} url: a given URL
+     * @param {Array} allowedOrigins: origins that can be redirected to
+     * @returns {boolean}
+     */
+    static isRedirectAllowed = (url: string, allowedOrigins: string[] = []): boolean => {
+        if (typeof url !== "string" || url.length === 0 || /[\u0000-\u001F\\]/.test(url)) {
+            return false;
+        }
+
+        // protocol-relative URLs (e.g. //contoso.com) are treated as absolute
+        if (url.startsWith("/") && !url.startsWith("//")) {
+            return true;
+        }
+
+        try {
+            const { protocol, origin } = new URL(url);
+
+            if (protocol !== "https:" && protocol !== "http:") {
+                return false;
+            }
+
+            return allowedOrigins.some((allowedOrigin) => new URL(allowedOrigin).origin === origin);
+        } catch (error) {
+            return false;
+        }
+    };
+
+    /**
+     * Checks if a given path matches an express-style path pattern, where
+     * named parameters (e.g. /api/todos/:id) match a single path segment
+     * and wildcards (e.g. /api/*) match any number of segments
+     * @param {string} pattern: a given path pattern
+     * @param {string} path: a given path
+     * @returns {boolean}
+     */
+    static matchesPathPattern = (pattern: string, path: string): boolean => {
+        if (typeof pattern !== "string" || typeof path !== "string") {
+            return false;
+        }
+
+        const regexSource = pattern
+            .replace(/\/+$/, "")
+            .split("/")
+            .slice(1) // patterns start with a slash
+            .map((segment) => {
+                if (segment.startsWith(":")) {
+                    return segment.endsWith("?") ? "(?:/[^/]+)?" : "/[^/]+";
+                }
+
+                return "/" + segment
+                    .split("*")
+                    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+                    .join(".*");
+            })
+            .join("");
+
+        // trailing slashes are ignored, as in express routing
+        return new RegExp(`^${regexSource}/?$`, "i").test(path);
+    };
 }
@@ -9,6 +9,12 @@ export { TokenValidator } from "./TokenValidator";
 export { FetchManager } from "./FetchManager";
 export { KeyVaultManager } from "./KeyVaultManager";
 export { UrlUtils } from "./UrlUtils";
+export { CryptoUtils } from "./CryptoUtils";
+export { PartitionedCachePlugin } from "./PartitionedCachePlugin";
+export { FileCacheStore } from "./FileCacheStore";
+export { InMemoryCacheStore } from "./InMemoryCacheStore";
+export { CookieSessionManager } from "./CookieSessionManager";
+export { InMemorySessionStoreAdapter } from "./InMemorySessionStoreAdapter";
 export { Logger } from "./Logger";
 export * from "./Types";
 export * from "./Constants";
@@ -0,0 +1,1335 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import {
+  ConfidentialClientApplication,
+  InteractionRequiredAuthError,
+} from '@azure/msal-node';
+import { AuthenticationScheme, ResponseMode } from '@azure/msal-common';
+
+import { AuthProvider } from '../src/AuthProvider';
+import { CryptoUtils } from '../src/CryptoUtils';
+import { TokenValidator } from '../src/TokenValidator';
+import {
+  AppStages,
+  ConfigurationErrorMessages,
+  CryptoConstants,
+  ErrorMessages,
+  FormPostConstants,
+  GuardResponseTypes,
+} from '../src/Constants';
+import { AppSettings, InitializationOptions } from '../src/Types';
+import { TEST_CONSTANTS } from './TestConstants';
+
+type TestResponse = {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+};
+
+type TestRequestOptions = {
+  headers?: http.OutgoingHttpHeaders;
+  body?: string;
+};
+
+/**
+ * Serves a given app on a random port for a single request
+ */
+const sendRequest = (
+  app: Express,
+  method: string,
+  path: string,
+  options: TestRequestOptions = {}
+): Promise<TestResponse> =>
+  new Promise((resolve, reject) => {
+    const server = app.listen(0, () => {
+      const request = http.request(
+        {
+          port: (server.address() as AddressInfo).port,
+          method: method,
+          path: path,
+          headers: options.headers,
+          agent: false,
+        },
+        response => {
+          let body = '';
+          response.on('data', chunk => (body += chunk));
+          response.on('end', () => {
+            server.close();
+            resolve({
+              status: response.statusCode,
+              headers: response.headers,
+              body: body,
+            });
+          });
+        }
+      );
+
+      // a request left unanswered would keep the server open
+      request.setTimeout(4000, () =>
+        request.destroy(new Error('Request timed out'))
+      );
+
+      request.on('error', error => {
+        server.close();
+        reject(error);
+      });
+
+      request.end(options.body);
+    });
+  });
+
+describe('AuthProvider', () => {
+  const issuer = `https://login.microsoftonline.com/${TEST_CONSTANTS.TENANT_ID}/v2.0`;
+
+  const appSettings: AppSettings = {
+    appCredentials: {
+      clientId: TEST_CONSTANTS.CLIENT_ID,
+      tenantId: TEST_CONSTANTS.TENANT_ID,
+      clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+    },
+    authRoutes: {
+      redirect: '/redirect',
+      error: '/error',
+      unauthorized: '/unauthorized',
+      frontChannelLogout: '/logout/front',
+    },
+    stateProtection: {
+      encryptionKeys: ['current_key'],
+      maxAge: 600,
+    },
+  };
+
+  const authProvider = new AuthProvider(appSettings);
+
+  const resourceProvider = new AuthProvider({
+    ...appSettings,
+    remoteResources: {
+      graphAPI: {
+        endpoint: 'https://graph.microsoft.com/v1.0/me',
+        scopes: ['User.Read'],
+      },
+      armAPI: {
+        endpoint: 'https://management.azure.com/tenants',
+        scopes: ['https://management.azure.com/user_impersonation'],
+      },
+    },
+  });
+
+  // state is sealed with a subkey of the configured encryption key
+  const stateKey = CryptoUtils.deriveSubkey(
+    CryptoUtils.deriveKey('current_key'),
+    CryptoConstants.STATE_KEY_LABEL
+  );
+
+  /**
+   * Creates an app with the routes of a given auth provider,
+   * serving every request with the same session object
+   */
+  const createApp = (
+    session: any,
+    addRoutes: (app: Express) => void = () => undefined,
+    provider: AuthProvider = authProvider,
+    options?: InitializationOptions
+  ): Express => {
+    const app = express();
+
+    app.use((req: Request, res: Response, next: NextFunction) => {
+      req.session = session;
+      next();
+    });
+
+    app.use(provider.initialize(options));
+    addRoutes(app);
+
+    app.use((error: Error, req: Request, res: Response, next: NextFunction) => {
+      res.status(500).send(error.message);
+    });
+
+    return app;
+  };
+
+  let getAuthCodeUrl: jest.SpyInstance;
+
+  beforeEach(() => {
+    getAuthCodeUrl = jest
+      .spyOn(ConfidentialClientApplication.prototype, 'getAuthCodeUrl')
+      .mockResolvedValue('https://login.microsoftonline.com/authorize');
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('initialize', () => {
+    test('requires encryption keys in session-less mode', () => {
+      const { stateProtection, ...settingsWithoutKeys } = appSettings;
+
+      expect(() =>
+        new AuthProvider(settingsWithoutKeys).initialize({ useSession: false })
+      ).toThrow(ConfigurationErrorMessages.NO_SESSION_ENCRYPTION_KEY);
+
+      expect(() =>
+        authProvider.initialize({ useSession: false })
+      ).not.toThrow();
+    });
+  });
+
+  describe('isAuthorized', () => {
+    const app = createApp(undefined, app =>
+      app.get('/api/todos', authProvider.isAuthorized(), (req, res) =>
+        res.sendStatus(200)
+      )
+    );
+
+    const requestWithoutToken = (accept?: string) =>
+      sendRequest(app, 'GET', '/api/todos', {
+        headers: accept ? { accept } : {},
+      });
+
+    test('redirects browser navigations', async () => {
+      const res = await requestWithoutToken(
+        'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
+      );
+
+      expect(res.status).toBe(302);
+      expect(res.headers.location).toBe('/unauthorized');
+    });
+
+    test('challenges clients accepting any type', async () => {
+      for (const accept of ['*/*', undefined, 'text/html;q=0, */*']) {
+        const res = await requestWithoutToken(accept);
+
+        expect(res.status).toBe(401);
+        expect(res.headers['www-authenticate']).toContain('Bearer');
+      }
+    });
+
+    test('challenges clients preferring JSON', async () => {
+      const res = await requestWithoutToken(
+        'application/json, text/html;q=0.5'
+      );
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('handleRedirect', () => {
+    const createSignInApp = (session: any) =>
+      createApp(session, app =>
+        app.get('/signin', authProvider.signIn({ successRedirect: '/' }))
+      );
+
+    // signs in and returns the state sent to the authorization server
+    const getSignInState = async (app: Express): Promise<string> => {
+      await sendRequest(app, 'GET', '/signin');
+      return getAuthCodeUrl.mock.calls[0][0].state;
+    };
+
+    const redirectWithState = (app: Express, state: string) =>
+      sendRequest(app, 'GET', `/redirect?state=${encodeURIComponent(state)}`);
+
+    test('rejects tampered state', async () => {
+      const app = createSignInApp({});
+      const state = await getSignInState(app);
+
+      // the first character is fully significant, unlike the last one
+      const tampered = (state.startsWith('A') ? 'B' : 'A') + state.substring(1);
+
+      const res = await redirectWithState(app, tampered);
+
+      expect(res.headers.location).toBe('/unauthorized');
+    });
+
+    test('rejects expired state', async () => {
+      const issuedAt = Math.round(new Date().getTime() / 1000) - 601;
+
+      const state = CryptoUtils.encrypt(
+        JSON.stringify({
+          nonce: 'NONCE',
+          stage: AppStages.SIGN_IN,
+          issuedAt: issuedAt,
+        }),
+        stateKey
+      );
+
+      const session = { nonce: 'NONCE' };
+      const res = await redirectWithState(createSignInApp(session), state);
+
+      expect(res.headers.location).toBe('/unauthorized');
+      expect(session.nonce).toBe('NONCE');
+    });
+
+    test('rejects state bound to another session', async () => {
+      const session: any = {};
+      const app = createSignInApp(session);
+      const state = await getSignInState(app);
+
+      session.nonce = 'ANOTHER_NONCE';
+
+      const res = await redirectWithState(app, state);
+
+      expect(res.headers.location).toBe('/unauthorized');
+    });
+
+    test('consumes the nonce and rejects reused state', async () => {
+      const session: any = {};
+      const app = createSignInApp(session);
+      const state = await getSignInState(app);
+
+      // no code in response, so the user is sent to the error route
+      const first = await redirectWithState(app, state);
+
+      expect(first.headers.location).toBe('/error');
+      expect(session.nonce).toBeUndefined();
+
+      const second = await redirectWithState(app, state);
+
+      expect(second.headers.location).toBe('/unauthorized');
+    });
+  });
+
+  describe('form_post response mode', () => {
+    // response mode is set on initialization, so it is kept apart from other tests
+    const formPostProvider = new AuthProvider(appSettings);
+
+    const createFormPostApp = (session: any) =>
+      createApp(
+        session,
+        app =>
+          app.get('/signin', formPostProvider.signIn({ successRedirect: '/' })),
+        formPostProvider,
+        { responseMode: ResponseMode.FORM_POST }
+      );
+
+    const postRedirect = (app: Express, params: { [key: string]: string }) =>
+      sendRequest(app, 'POST', '/redirect', {
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams(params).toString(),
+      });
+
+    test('resubmits cross-site posts with escaped parameters', async () => {
+      const res = await postRedirect(createFormPostApp({}), {
+        code: '"><script>alert(1)</script>',
+        state: "'><img src=x onerror=alert(1)>",
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers['cache-control']).toBe('no-store');
+      expect(res.body).not.toContain('<script>');
+      expect(res.body).not.toContain('<img');
+      expect(res.body).toContain(
+        'value="&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;"'
+      );
+      expect(res.body).toContain(
+        'value="&#39;&gt;&lt;img src=x onerror=alert(1)&gt;"'
+      );
+      expect(res.body).toContain(
+        `name="${FormPostConstants.RESUBMIT_FIELD}" value="true"`
+      );
+    });
+
+    test('handles resubmitted posts as redirect responses', async () => {
+      const acquireTokenByCode = jest
+        .spyOn(ConfidentialClientApplication.prototype, 'acquireTokenByCode')
+        .mockRejectedValue(new Error('Invalid grant'));
+
+      const session: any = {};
+      const app = createFormPostApp(session);
+
+      await sendRequest(app, 'GET', '/signin');
+
+      const { state, responseMode } = getAuthCodeUrl.mock.calls[0][0];
+
+      expect(responseMode).toBe(ResponseMode.FORM_POST);
+
+      await postRedirect(app, {
+        code: 'AUTH_CODE',
+        state: state,
+        [FormPostConstants.RESUBMIT_FIELD]: 'true',
+      });
+
+      expect(acquireTokenByCode).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'AUTH_CODE' })
+      );
+      expect(session.nonce).toBeUndefined();
+    });
+  });
+
+  describe('authorization errors', () => {
+    const errorResponse = (error: string, state: string) =>
+      `/redirect?error=${error}&error_description=${encodeURIComponent(
+        `${error} description`
+      )}&state=${encodeURIComponent(state)}`;
+
+    test('redirects to the failure route of the request', async () => {
+      const session: any = {};
+
+      const app = createApp(session, app =>
+        app.get(
+          '/signin',
+          authProvider.signIn({
+            successRedirect: '/',
+            failureRedirect: '/signin/failed',
+          })
+        )
+      );
+
+      await sendRequest(app, 'GET', '/signin');
+
+      const res = await sendRequest(
+        app,
+        'GET',
+        errorResponse('access_denied', getAuthCodeUrl.mock.calls[0][0].state)
+      );
+
+      expect(res.headers.location).toBe('/signin/failed');
+    });
+
+    test('passes errors to the onError hook', async () => {
+      const onError = jest.fn((error, req, res) => res.sendStatus(403));
+      const session: any = {};
+
+      const app = createApp(
+        session,
+        app =>
+          app.get('/signin', authProvider.signIn({ successRedirect: '/' })),
+        authProvider,
+        { handleRedirectOptions: { onError } }
+      );
+
+      await sendRequest(app, 'GET', '/signin');
+
+      const res = await sendRequest(
+        app,
+        'GET',
+        errorResponse(
+          'interaction_required',
+          getAuthCodeUrl.mock.calls[0][0].state
+        )
+      );
+
+      const [error] = onError.mock.calls[0];
+
+      expect(res.status).toBe(403);
+      expect(error).toBeInstanceOf(InteractionRequiredAuthError);
+      expect(error.errorCode).toBe('interaction_required');
+    });
+  });
+
+  describe('consent', () => {
+    const session: any = {};
+
+    const app = createApp(
+      session,
+      app => {
+        app.get(
+          '/consent',
+          resourceProvider.consent({
+            resources: ['graphAPI', 'armAPI'],
+            successRedirect: '/consented',
+          })
+        );
+        app.get(
+          '/consent/unknown',
+          resourceProvider.consent({
+            resources: ['unknownAPI'],
+            successRedirect: '/consented',
+          })
+        );
+      },
+      resourceProvider
+    );
+
+    test('consents to all resources in one round trip and redeems the code for the first', async () => {
+      const acquireTokenByCode = jest
+        .spyOn(ConfidentialClientApplication.prototype, 'acquireTokenByCode')
+        .mockResolvedValue({ accessToken: 'GRAPH_TOKEN' } as any);
+
+      await sendRequest(app, 'GET', '/consent');
+
+      const {
+        scopes,
+        extraScopesToConsent,
+        state,
+      } = getAuthCodeUrl.mock.calls[0][0];
+
+      expect(scopes).toEqual(['User.Read']);
+      expect(extraScopesToConsent).toEqual([
+        'https://management.azure.com/user_impersonation',
+      ]);
+      expect(JSON.parse(CryptoUtils.decrypt(state, [stateKey])).stage).toBe(
+        AppStages.CONSENT
+      );
+
+      const res = await sendRequest(
+        app,
+        'GET',
+        `/redirect?code=CODE&state=${encodeURIComponent(state)}`
+      );
+
+      expect(acquireTokenByCode.mock.calls[0][0].scopes).toEqual(['User.Read']);
+      expect(session.remoteResources.graphAPI.accessToken).toBe('GRAPH_TOKEN');
+      expect(res.headers.location).toBe('/consented');
+    });
+
+    test('rejects resources that are not in settings', async () => {
+      const res = await sendRequest(app, 'GET', '/consent/unknown');
+
+      expect(res.status).toBe(500);
+      expect(res.body).toContain(ErrorMessages.RESOURCE_NOT_FOUND);
+      expect(getAuthCodeUrl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PKCE', () => {
+    const session: any = {};
+
+    const app = createApp(session, app =>
+      app.get('/signin', authProvider.signIn({ successRedirect: '/' }))
+    );
+
+    test('sends the S256 challenge and redeems the code with its verifier', async () => {
+      const acquireTokenByCode = jest
+        .spyOn(ConfidentialClientApplication.prototype, 'acquireTokenByCode')
+        .mockRejectedValue(new Error('Token request failed'));
+
+      await sendRequest(app, 'GET', '/signin');
+
+      const authCodeRequest = getAuthCodeUrl.mock.calls[0][0];
+
+      expect(authCodeRequest.codeChallengeMethod).toBe('S256');
+      expect(authCodeRequest.codeChallenge).toBeTruthy();
+
+      await sendRequest(
+        app,
+        'GET',
+        `/redirect?code=CODE&state=${encodeURIComponent(authCodeRequest.state)}`
+      );
+
+      const { code, codeVerifier } = acquireTokenByCode.mock.calls[0][0];
+
+      expect(code).toBe('CODE');
+      expect(
+        CryptoUtils.base64UrlEncode(
+          crypto
+            .createHash('sha256')
+            .update(codeVerifier)
+            .digest()
+        )
+      ).toBe(authCodeRequest.codeChallenge);
+    });
+
+    test('generates a new verifier for each request', async () => {
+      await sendRequest(app, 'GET', '/signin');
+
+      const firstVerifier = session.tokenRequest.codeVerifier;
+      const firstChallenge = session.authCodeRequest.codeChallenge;
+
+      await sendRequest(app, 'GET', '/signin');
+
+      expect(session.tokenRequest.codeVerifier).not.toBe(firstVerifier);
+      expect(session.authCodeRequest.codeChallenge).not.toBe(firstChallenge);
+    });
+
+    test('does not redeem a code without a verifier', async () => {
+      const acquireTokenByCode = jest.spyOn(
+        ConfidentialClientApplication.prototype,
+        'acquireTokenByCode'
+      );
+
+      await sendRequest(app, 'GET', '/signin');
+      delete session.tokenRequest.codeVerifier;
+
+      const res = await sendRequest(
+        app,
+        'GET',
+        `/redirect?code=CODE&state=${encodeURIComponent(
+          getAuthCodeUrl.mock.calls[0][0].state
+        )}`
+      );
+
+      expect(res.headers.location).toBe('/unauthorized');
+      expect(acquireTokenByCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('B2C user-flows', () => {
+    const b2cProvider = new AuthProvider({
+      ...appSettings,
+      b2cPolicies: {
+        signUpSignIn: {
+          authority: TEST_CONSTANTS.B2C_SIGN_UP_SIGN_IN_AUTHORITY,
+        },
+        editProfile: {
+          authority: TEST_CONSTANTS.B2C_EDIT_PROFILE_AUTHORITY,
+        },
+        resetPassword: {
+          authority: TEST_CONSTANTS.B2C_RESET_PASSWORD_AUTHORITY,
+        },
+      },
+    });
+
+    const session: any = {};
+
+    const app = createApp(
+      session,
+      app => {
+        app.get('/signin', b2cProvider.signIn({ successRedirect: '/' }));
+        app.get(
+          '/profile',
+          b2cProvider.editProfile({ successRedirect: '/profile/edited' })
+        );
+        app.get(
+          '/password',
+          b2cProvider.resetPassword({ successRedirect: '/password/reset' })
+        );
+      },
+      b2cProvider
+    );
+
+    // sends a request and returns the auth code request it initiated
+    const initiateUserFlow = async (path: string) => {
+      await sendRequest(app, 'GET', path);
+
+      const { authority, state } = getAuthCodeUrl.mock.calls[
+        getAuthCodeUrl.mock.calls.length - 1
+      ][0];
+
+      return {
+        authority,
+        state: JSON.parse(CryptoUtils.decrypt(state, [stateKey])),
+        encodedState: state,
+      };
+    };
+
+    test('signs in with the default policy', async () => {
+      const { authority, state } = await initiateUserFlow('/signin');
+
+      expect(authority).toBe(TEST_CONSTANTS.B2C_SIGN_UP_SIGN_IN_AUTHORITY);
+      expect(state.stage).toBe(AppStages.SIGN_IN);
+    });
+
+    test('signs in with a policy selected per request', async () => {
+      const { authority } = await initiateUserFlow(
+        '/signin?policy=editProfile'
+      );
+
+      expect(authority).toBe(TEST_CONSTANTS.B2C_EDIT_PROFILE_AUTHORITY);
+    });
+
+    test('ignores requested policies that are not in settings', async () => {
+      const { authority } = await initiateUserFlow(
+        '/signin?policy=B2C_1_other'
+      );
+
+      expect(authority).toBe(TEST_CONSTANTS.B2C_SIGN_UP_SIGN_IN_AUTHORITY);
+    });
+
+    test('initiates edit profile and password reset user-flows', async () => {
+      const editProfile = await initiateUserFlow('/profile');
+
+      expect(editProfile.authority).toBe(
+        TEST_CONSTANTS.B2C_EDIT_PROFILE_AUTHORITY
+      );
+      expect(editProfile.state.stage).toBe(AppStages.EDIT_PROFILE);
+      expect(editProfile.state.path).toBe('/profile/edited');
+
+      const resetPassword = await initiateUserFlow('/password');
+
+      expect(resetPassword.authority).toBe(
+        TEST_CONSTANTS.B2C_RESET_PASSWORD_AUTHORITY
+      );
+      expect(resetPassword.state.stage).toBe(AppStages.RESET_PASSWORD);
+      expect(resetPassword.state.path).toBe('/password/reset');
+    });
+
+    test('takes users who forgot their password to the reset policy', async () => {
+      const signIn = await initiateUserFlow('/signin');
+
+      const res = await sendRequest(
+        app,
+        'GET',
+        `/redirect?error=access_denied&error_description=${encodeURIComponent(
+          'AADB2C90118: The user has forgotten their password.'
+        )}&state=${encodeURIComponent(signIn.encodedState)}`
+      );
+
+      const { authority, state } = getAuthCodeUrl.mock.calls[1][0];
+
+      expect(res.headers.location).toBe(
+        'https://login.microsoftonline.com/authorize'
+      );
+      expect(authority).toBe(TEST_CONSTANTS.B2C_RESET_PASSWORD_AUTHORITY);
+      expect(JSON.parse(CryptoUtils.decrypt(state, [stateKey]))).toMatchObject({
+        stage: AppStages.RESET_PASSWORD,
+        path: '/',
+      });
+    });
+
+    test('rejects user-flows that are not in settings', () => {
+      expect(() =>
+        new AuthProvider(appSettings).editProfile({ successRedirect: '/' })
+      ).toThrow(ConfigurationErrorMessages.NO_B2C_POLICY);
+    });
+  });
+
+  describe('getToken', () => {
+    const popAPI = {
+      endpoint: 'https://localhost:4000/api/todos',
+      scopes: ['api://TODO_LIST_API/access_as_user'],
+      authenticationScheme: AuthenticationScheme.POP,
+    };
+
+    const popProvider = new AuthProvider({
+      ...appSettings,
+      remoteResources: { popAPI },
+    });
+
+    const createSession = (): any => ({
+      isAuthenticated: true,
+      account: { homeAccountId: 'HOME_ACCOUNT_ID', idTokenClaims: {} },
+    });
+
+    const getToken = (session: any) =>
+      sendRequest(
+        createApp(
+          session,
+          app =>
+            app.get(
+              '/todos',
+              popProvider.getToken({ resource: popAPI }),
+              (req, res) => res.sendStatus(200)
+            ),
+          popProvider
+        ),
+        'GET',
+        '/todos'
+      );
+
+    test('acquires PoP tokens bound to GET requests to the resource endpoint', async () => {
+      const acquireTokenSilent = jest
+        .spyOn(ConfidentialClientApplication.prototype, 'acquireTokenSilent')
+        .mockResolvedValue({ accessToken: 'SIGNED_HTTP_REQUEST' } as any);
+
+      const session = createSession();
+      const res = await getToken(session);
+
+      expect(res.status).toBe(200);
+      expect(session.remoteResources.popAPI.accessToken).toBe(
+        'SIGNED_HTTP_REQUEST'
+      );
+      expect(acquireTokenSilent.mock.calls[0][0]).toMatchObject({
+        scopes: popAPI.scopes,
+        authenticationScheme: AuthenticationScheme.POP,
+        resourceRequestMethod: 'GET',
+        resourceRequestUri: popAPI.endpoint,
+        forceRefresh: false,
+      });
+    });
+
+    test('refreshes PoP tokens bound to the key of another instance', async () => {
+      const acquireTokenSilent = jest
+        .spyOn(ConfidentialClientApplication.prototype, 'acquireTokenSilent')
+        .mockRejectedValueOnce(
+          new Error(`${ErrorMessages.POP_KEY_NOT_FOUND} OTHER_KEY`)
+        )
+        .mockResolvedValueOnce({ accessToken: 'SIGNED_HTTP_REQUEST' } as any);
+
+      const session = createSession();
+      const res = await getToken(session);
+
+      expect(res.status).toBe(200);
+      expect(session.remoteResources.popAPI.accessToken).toBe(
+        'SIGNED_HTTP_REQUEST'
+      );
+      expect(acquireTokenSilent).toHaveBeenCalledTimes(2);
+      expect(acquireTokenSilent.mock.calls[1][0].forceRefresh).toBe(true);
+    });
+  });
+
+  describe('getTokens', () => {
+    const { graphAPI, armAPI } = resourceProvider.appSettings.remoteResources;
+
+    const createSession = (): any => ({
+      isAuthenticated: true,
+      account: { homeAccountId: 'HOME_ACCOUNT_ID', idTokenClaims: {} },
+    });
+
+    const getTokens = (session: any) =>
+      sendRequest(
+        createApp(
+          session,
+          app =>
+            app.get(
+              '/dashboard',
+              resourceProvider.getTokens({ resources: [graphAPI, armAPI] }),
+              (req, res) => res.sendStatus(200)
+            ),
+          resourceProvider
+        ),
+        'GET',
+        '/dashboard'
+      );
+
+    // silent requests succeed only for resources whose scopes are consented
+    const mockSilentRequests = (consentedScopes: string[]) =>
+      jest
+        .spyOn(ConfidentialClientApplication.prototype, 'acquireTokenSilent')
+        .mockImplementation(async request => {
+          if (!consentedScopes.includes(request.scopes[0])) {
+            throw new InteractionRequiredAuthError('interaction_required');
+          }
+
+          return { accessToken: `TOKEN_FOR_${request.scopes[0]}` } as any;
+        });
+
+    test('acquires tokens for all resources silently', async () => {
+      mockSilentRequests([...graphAPI.scopes, ...armAPI.scopes]);
+
+      const session = createSession();
+      const res = await getTokens(session);
+
+      expect(res.status).toBe(200);
+      expect(session.remoteResources.graphAPI.accessToken).toBe(
+        'TOKEN_FOR_User.Read'
+      );
+      expect(session.remoteResources.armAPI.accessToken).toBe(
+        `TOKEN_FOR_${armAPI.scopes[0]}`
+      );
+      expect(getAuthCodeUrl).not.toHaveBeenCalled();
+    });
+
+    test('consents to all resources requiring interaction in a single round trip', async () => {
+      mockSilentRequests([]);
+
+      const session = createSession();
+      const res = await getTokens(session);
+
+      const {
+        scopes,
+        extraScopesToConsent,
+        state,
+      } = getAuthCodeUrl.mock.calls[0][0];
+
+      expect(getAuthCodeUrl).toHaveBeenCalledTimes(1);
+      expect(res.headers.location).toBe(
+        'https://login.microsoftonline.com/authorize'
+      );
+      expect(scopes).toEqual(graphAPI.scopes);
+      expect(extraScopesToConsent).toEqual(armAPI.scopes);
+      expect(JSON.parse(CryptoUtils.decrypt(state, [stateKey]))).toMatchObject({
+        stage: AppStages.ACQUIRE_TOKEN,
+        path: '/dashboard',
+      });
+    });
+
+    test('keeps tokens acquired silently when others require interaction', async () => {
+      mockSilentRequests(graphAPI.scopes);
+
+      const session = createSession();
+      await getTokens(session);
+
+      expect(session.remoteResources.graphAPI.accessToken).toBe(
+        'TOKEN_FOR_User.Read'
+      );
+      expect(getAuthCodeUrl.mock.calls[0][0].scopes).toEqual(armAPI.scopes);
+      expect(getAuthCodeUrl.mock.calls[0][0].extraScopesToConsent).toEqual([]);
+    });
+
+    test('passes other errors to next', async () => {
+      jest
+        .spyOn(ConfidentialClientApplication.prototype, 'acquireTokenSilent')
+        .mockRejectedValue(new Error('Network error'));
+
+      const res = await getTokens(createSession());
+
+      expect(res.status).toBe(500);
+      expect(getAuthCodeUrl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAppToken', () => {
+    const { graphAPI } = resourceProvider.appSettings.remoteResources;
+
+    const getAppToken = () =>
+      sendRequest(
+        createApp(
+          {},
+          app =>
+            app.get(
+              '/admin',
+              resourceProvider.getAppToken({ resource: graphAPI }),
+              (req, res) => res.json(req.locals)
+            ),
+          resourceProvider
+        ),
+        'GET',
+        '/admin'
+      );
+
+    test('attaches app tokens to the request', async () => {
+      const acquireTokenByClientCredential = jest
+        .spyOn(
+          ConfidentialClientApplication.prototype,
+          'acquireTokenByClientCredential'
+        )
+        .mockResolvedValue({ accessToken: 'APP_TOKEN' } as any);
+
+      const res = await getAppToken();
+
+      expect(res.status).toBe(200);
+      expect(JSON.parse(res.body).graphAPI).toEqual({
+        ...graphAPI,
+        accessToken: 'APP_TOKEN',
+      });
+      expect(acquireTokenByClientCredential).toHaveBeenCalledWith({
+        scopes: ['https://graph.microsoft.com/.default'],
+        skipCache: false,
+      });
+    });
+
+    test('passes an error to next if no token is obtained', async () => {
+      jest
+        .spyOn(
+          ConfidentialClientApplication.prototype,
+          'acquireTokenByClientCredential'
+        )
+        .mockResolvedValue(null);
+
+      const res = await getAppToken();
+
+      expect(res.status).toBe(500);
+      expect(res.body).toBe(
+        `${ErrorMessages.APP_TOKEN_NOT_OBTAINED} ${graphAPI.endpoint}`
+      );
+    });
+
+    test('serves app tokens from cache unless skipped', async () => {
+      const acquireTokenByClientCredential = jest
+        .spyOn(
+          ConfidentialClientApplication.prototype,
+          'acquireTokenByClientCredential'
+        )
+        .mockResolvedValue({ accessToken: 'APP_TOKEN' } as any);
+
+      await expect(
+        resourceProvider.acquireAppToken({ resource: graphAPI })
+      ).resolves.toBe('APP_TOKEN');
+
+      await expect(
+        resourceProvider.acquireAppToken({
+          resource: graphAPI,
+          skipCache: true,
+        })
+      ).resolves.toBe('APP_TOKEN');
+
+      expect(
+        acquireTokenByClientCredential.mock.calls.map(
+          ([request]) => request.skipCache
+        )
+      ).toEqual([false, true]);
+    });
+  });
+
+  describe('getTokenOnBehalf', () => {
+    const { graphAPI } = resourceProvider.appSettings.remoteResources;
+
+    const app = createApp(
+      undefined,
+      app =>
+        app.get(
+          '/api/profile',
+          resourceProvider.getTokenOnBehalf({ resource: graphAPI }),
+          (req, res) => res.json(req.locals)
+        ),
+      resourceProvider
+    );
+
+    const callApi = (authorization: string) =>
+      sendRequest(app, 'GET', '/api/profile', {
+        headers: { authorization },
+      });
+
+    const mockTokenValidation = (isValid: boolean) =>
+      jest
+        .spyOn(TokenValidator.prototype, 'verifyAccessTokenSignature')
+        .mockResolvedValue(isValid);
+
+    // incoming tokens differ between tests, as results are cached by them
+    const mockOnBehalfOfRequests = () =>
+      jest
+        .spyOn(
+          ConfidentialClientApplication.prototype,
+          'acquireTokenOnBehalfOf'
+        )
+        .mockImplementation(
+          async request =>
+            ({
+              accessToken: `OBO_TOKEN_FOR_${request.oboAssertion}`,
+              expiresOn: new Date(new Date().getTime() + 3600 * 1000),
+            } as any)
+        );
+
+    test('accepts the bearer scheme in any case', async () => {
+      const verifyAccessTokenSignature = mockTokenValidation(true);
+      mockOnBehalfOfRequests();
+
+      const res = await callApi('bearer  INCOMING_TOKEN_1');
+
+      expect(res.status).toBe(200);
+      expect(JSON.parse(res.body).graphAPI.accessToken).toBe(
+        'OBO_TOKEN_FOR_INCOMING_TOKEN_1'
+      );
+      expect(verifyAccessTokenSignature.mock.calls[0][0]).toBe(
+        'INCOMING_TOKEN_1'
+      );
+    });
+
+    test('challenges requests without a bearer token', async () => {
+      const verifyAccessTokenSignature = mockTokenValidation(true);
+
+      const res = await callApi('Basic dXNlcjpwYXNz');
+
+      expect(res.status).toBe(401);
+      expect(res.headers['www-authenticate']).toContain('Bearer');
+      expect(verifyAccessTokenSignature).not.toHaveBeenCalled();
+    });
+
+    test('rejects incoming tokens that fail validation', async () => {
+      mockTokenValidation(false);
+      const acquireTokenOnBehalfOf = mockOnBehalfOfRequests();
+
+      const res = await callApi('Bearer INCOMING_TOKEN_2');
+
+      expect(res.status).toBe(401);
+      expect(res.headers['www-authenticate']).toContain(
+        'error="invalid_token"'
+      );
+      expect(acquireTokenOnBehalfOf).not.toHaveBeenCalled();
+    });
+
+    test('serves tokens from cache for the same incoming token', async () => {
+      mockTokenValidation(true);
+      const acquireTokenOnBehalfOf = mockOnBehalfOfRequests();
+
+      const first = await callApi('Bearer INCOMING_TOKEN_3');
+      const second = await callApi('Bearer INCOMING_TOKEN_3');
+
+      expect(JSON.parse(second.body).graphAPI.accessToken).toBe(
+        JSON.parse(first.body).graphAPI.accessToken
+      );
+      expect(acquireTokenOnBehalfOf).toHaveBeenCalledTimes(1);
+
+      // a different incoming token misses the cache
+      const third = await callApi('Bearer INCOMING_TOKEN_4');
+
+      expect(JSON.parse(third.body).graphAPI.accessToken).toBe(
+        'OBO_TOKEN_FOR_INCOMING_TOKEN_4'
+      );
+      expect(acquireTokenOnBehalfOf).toHaveBeenCalledTimes(2);
+      expect(acquireTokenOnBehalfOf.mock.calls[1][0]).toEqual({
+        oboAssertion: 'INCOMING_TOKEN_4',
+        scopes: graphAPI.scopes,
+      });
+    });
+  });
+
+  describe('requireAuthContext', () => {
+    const requestWithSession = (session: any) =>
+      sendRequest(
+        createApp(session, app =>
+          app.get(
+            '/transfers',
+            authProvider.requireAuthContext('c1'),
+            (req, res) => res.sendStatus(200)
+          )
+        ),
+        'GET',
+        '/transfers?amount=100'
+      );
+
+    const createSession = (acrs?: string[]): any => ({
+      isAuthenticated: true,
+      account: { homeAccountId: 'HOME_ACCOUNT_ID', idTokenClaims: { acrs } },
+    });
+
+    test('allows users who satisfied the authentication context', async () => {
+      const res = await requestWithSession(createSession(['c1']));
+
+      expect(res.status).toBe(200);
+      expect(getAuthCodeUrl).not.toHaveBeenCalled();
+    });
+
+    test('steps up users who did not satisfy the authentication context', async () => {
+      const res = await requestWithSession(createSession(['c2']));
+
+      const { claims, state } = getAuthCodeUrl.mock.calls[0][0];
+
+      expect(res.headers.location).toBe(
+        'https://login.microsoftonline.com/authorize'
+      );
+      expect(JSON.parse(claims)).toEqual({
+        id_token: { acrs: { essential: true, value: 'c1' } },
+      });
+      expect(JSON.parse(CryptoUtils.decrypt(state, [stateKey]))).toMatchObject({
+        stage: AppStages.SIGN_IN,
+        path: '/transfers?amount=100',
+      });
+    });
+
+    test('sends anonymous users to the unauthorized route', async () => {
+      const res = await requestWithSession({});
+
+      expect(res.headers.location).toBe('/unauthorized');
+      expect(getAuthCodeUrl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('signOut', () => {
+    const createSession = (): any => ({
+      isAuthenticated: true,
+      account: {
+        homeAccountId: 'HOME_ACCOUNT_ID',
+        idTokenClaims: { login_hint: 'LOGIN_HINT' },
+      },
+      destroy: jest.fn(callback => callback()),
+    });
+
+    const signOut = (session: any) =>
+      sendRequest(
+        createApp(session, app =>
+          app.get(
+            '/signout',
+            authProvider.signOut({
+              successRedirect: '/',
+              failureRedirect: '/signout/failed',
+            })
+          )
+        ),
+        'GET',
+        '/signout'
+      );
+
+    test('purges the token cache and ends the session with a logout hint', async () => {
+      const cachedAccount = { homeAccountId: 'HOME_ACCOUNT_ID' };
+
+      const tokenCache: any = {
+        getAccountByHomeId: jest.fn(async () => cachedAccount),
+        removeAccount: jest.fn(async () => undefined),
+      };
+
+      jest
+        .spyOn(ConfidentialClientApplication.prototype, 'getTokenCache')
+        .mockReturnValue(tokenCache);
+
+      const session = createSession();
+      const res = await signOut(session);
+
+      expect(tokenCache.removeAccount).toHaveBeenCalledWith(cachedAccount);
+      expect(session.isAuthenticated).toBe(false);
+      expect(session.destroy).toHaveBeenCalled();
+
+      expect(res.headers.location).toContain('/oauth2/v2.0/logout?');
+      expect(res.headers.location).toContain(
+        'post_logout_redirect_uri=http%3A%2F%2F'
+      );
+      expect(res.headers.location).toContain('&logout_hint=LOGIN_HINT');
+    });
+
+    test('keeps the session if the account cannot be removed from cache', async () => {
+      const tokenCache: any = {
+        getAccountByHomeId: jest.fn(async () => {
+          throw new Error('Cache not available');
+        }),
+      };
+
+      jest
+        .spyOn(ConfidentialClientApplication.prototype, 'getTokenCache')
+        .mockReturnValue(tokenCache);
+
+      const session = createSession();
+      const res = await signOut(session);
+
+      expect(res.headers.location).toBe('/signout/failed');
+      expect(session.isAuthenticated).toBe(true);
+      expect(session.destroy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleFrontChannelLogout', () => {
+    const createSession = (): any => ({
+      isAuthenticated: true,
+      sid: 'SESSION_ID',
+      iss: issuer,
+      account: { homeAccountId: 'HOME_ACCOUNT_ID' },
+      destroy: jest.fn(callback => callback()),
+    });
+
+    const logout = (session: any, query: string) =>
+      sendRequest(createApp(session), 'GET', `/logout/front?${query}`);
+
+    test('rejects requests without sid or iss', async () => {
+      const res = await logout(createSession(), 'sid=SESSION_ID');
+      expect(res.status).toBe(400);
+    });
+
+    test('does not end a session with another sid or iss', async () => {
+      const session = createSession();
+
+      const res = await logout(
+        session,
+        `sid=ANOTHER_SESSION_ID&iss=${encodeURIComponent(issuer)}`
+      );
+
+      expect(res.status).toBe(403);
+      expect(session.destroy).not.toHaveBeenCalled();
+
+      const otherIssuerRes = await logout(
+        session,
+        `sid=SESSION_ID&iss=${encodeURIComponent('https://evil.example.com')}`
+      );
+
+      expect(otherIssuerRes.status).toBe(403);
+      expect(session.destroy).not.toHaveBeenCalled();
+    });
+
+    test('succeeds without a signed-in session', async () => {
+      const res = await logout(
+        undefined,
+        `sid=SESSION_ID&iss=${encodeURIComponent(issuer)}`
+      );
+
+      expect(res.status).toBe(200);
+    });
+
+    test('removes the account from cache and destroys a matching session', async () => {
+      const cachedAccount = { homeAccountId: 'HOME_ACCOUNT_ID' };
+
+      const tokenCache: any = {
+        getAccountByHomeId: jest.fn(async () => cachedAccount),
+        removeAccount: jest.fn(async () => undefined),
+      };
+
+      jest
+        .spyOn(ConfidentialClientApplication.prototype, 'getTokenCache')
+        .mockReturnValue(tokenCache);
+
+      const session = createSession();
+      const res = await logout(
+        session,
+        `sid=SESSION_ID&iss=${encodeURIComponent(issuer)}`
+      );
+
+      expect(tokenCache.getAccountByHomeId).toHaveBeenCalledWith(
+        'HOME_ACCOUNT_ID'
+      );
+      expect(tokenCache.removeAccount).toHaveBeenCalledWith(cachedAccount);
+      expect(session.destroy).toHaveBeenCalled();
+      expect(res.status).toBe(200);
+    });
+  });
+
+  describe('enforceAccessMatrix', () => {
+    const matrixProvider = new AuthProvider({
+      ...appSettings,
+      accessMatrix: {
+        todoList: {
+          path: '/todos/*',
+          methods: ['get', 'post'],
+          roles: ['TaskUser'],
+        },
+      },
+    });
+
+    const requestWithSession = (method: string, path: string, session?: any) =>
+      sendRequest(
+        createApp(
+          session,
+          app => {
+            app.use(
+              matrixProvider.enforceAccessMatrix({
+                responseType: GuardResponseTypes.API,
+                protectedPrefixes: ['/todos', '/dashboard'],
+              })
+            );
+
+            app.all('*', (req, res) => res.sendStatus(200));
+          },
+          matrixProvider
+        ),
+        method,
+        path
+      );
+
+    const createSession = (roles: string[]) => ({
+      isAuthenticated: true,
+      account: { idTokenClaims: { roles: roles } },
+    });
+
+    test('allows requests passing a matching rule, regardless of method case', async () => {
+      const res = await requestWithSession(
+        'POST',
+        '/todos/1',
+        createSession(['TaskUser'])
+      );
+
+      expect(res.status).toBe(200);
+    });
+
+    test('denies requests failing a matching rule', async () => {
+      const res = await requestWithSession(
+        'GET',
+        '/todos/1',
+        createSession(['TaskAdmin'])
+      );
+
+      expect(res.status).toBe(403);
+    });
+
+    test('ignores requests outside protected prefixes', async () => {
+      const res = await requestWithSession('GET', '/about');
+
+      expect(res.status).toBe(200);
+    });
+
+    test('denies requests under protected prefixes that no rule matches', async () => {
+      const signedIn = await requestWithSession(
+        'GET',
+        '/dashboard',
+        createSession(['TaskUser'])
+      );
+
+      expect(signedIn.status).toBe(403);
+
+      const anonymous = await requestWithSession('GET', '/dashboard', {});
+
+      expect(anonymous.status).toBe(401);
+    });
+
+    test('challenges anonymous requests to a matching rule', async () => {
+      const withoutSession = await requestWithSession('GET', '/todos/1');
+
+      expect(withoutSession.status).toBe(401);
+
+      const signedOut = await requestWithSession('GET', '/todos/1', {
+        isAuthenticated: false,
+      });
+
+      expect(signedOut.status).toBe(401);
+    });
+
+    test('challenges requests with an account lacking id token claims', async () => {
+      const res = await requestWithSession('GET', '/todos/1', {
+        isAuthenticated: true,
+        account: {},
+      });
+
+      expect(res.status).toBe(401);
+    });
+  });
+});
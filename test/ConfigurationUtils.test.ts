@@ -0,0 +1,65 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { ConfigurationUtils } from '../src/ConfigurationUtils';
+import { AppSettings } from '../src/Types';
+import { TEST_CONSTANTS } from './TestConstants';
+
+describe('ConfigurationUtils', () => {
+  const appSettings: AppSettings = {
+    appCredentials: {
+      clientId: TEST_CONSTANTS.CLIENT_ID,
+      tenantId: TEST_CONSTANTS.TENANT_ID,
+      clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+    },
+    authRoutes: {
+      redirect: TEST_CONSTANTS.APP_ROUTE,
+      error: TEST_CONSTANTS.APP_ROUTE,
+      unauthorized: TEST_CONSTANTS.APP_ROUTE,
+    },
+  };
+
+  test('uses the sign-up/sign-in policy as default B2C authority', () => {
+    const msalConfig = ConfigurationUtils.getMsalConfiguration({
+      ...appSettings,
+      b2cPolicies: {
+        editProfile: {
+          authority: TEST_CONSTANTS.B2C_EDIT_PROFILE_AUTHORITY,
+        },
+        signUpSignIn: {
+          authority: TEST_CONSTANTS.B2C_SIGN_UP_SIGN_IN_AUTHORITY,
+        },
+      },
+    });
+
+    expect(msalConfig.auth.authority).toBe(
+      TEST_CONSTANTS.B2C_SIGN_UP_SIGN_IN_AUTHORITY
+    );
+    expect(msalConfig.auth.knownAuthorities).toEqual([
+      TEST_CONSTANTS.B2C_DOMAIN,
+    ]);
+  });
+
+  test('uses the first policy as default B2C authority otherwise', () => {
+    const msalConfig = ConfigurationUtils.getMsalConfiguration({
+      ...appSettings,
+      b2cPolicies: {
+        editProfile: {
+          authority: TEST_CONSTANTS.B2C_EDIT_PROFILE_AUTHORITY,
+        },
+      },
+    });
+
+    expect(msalConfig.auth.authority).toBe(
+      TEST_CONSTANTS.B2C_EDIT_PROFILE_AUTHORITY
+    );
+  });
+
+  test('advertises the CAE client capability', () => {
+    const msalConfig = ConfigurationUtils.getMsalConfiguration(appSettings);
+
+    expect(msalConfig.auth.clientCapabilities).toEqual(['cp1']);
+  });
+});
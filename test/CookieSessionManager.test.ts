@@ -0,0 +1,178 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { CookieSessionManager } from '../src/CookieSessionManager';
+import { CryptoUtils } from '../src/CryptoUtils';
+
+describe('CookieSessionManager', () => {
+  const keys = [CryptoUtils.deriveKey('current_key')];
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const runMiddleware = (
+    cookieSessionManager: CookieSessionManager,
+    cookieHeader?: string
+  ) => {
+    const req: any = { headers: { cookie: cookieHeader }, secure: true };
+    const cookies: { [name: string]: string } = {};
+    const clearedCookies: string[] = [];
+
+    const res: any = {
+      writeHead: jest.fn(),
+      cookie: jest.fn((name, value) => (cookies[name] = value)),
+      clearCookie: jest.fn(name => clearedCookies.push(name)),
+    };
+
+    cookieSessionManager.initialize()(req, res, jest.fn());
+
+    return { req, res, cookies, clearedCookies };
+  };
+
+  const toCookieHeader = (cookies: { [name: string]: string }) =>
+    Object.keys(cookies)
+      .map(name => `${name}=${cookies[name]}`)
+      .join('; ');
+
+  test('restores session data from the ticket cookie', () => {
+    const cookieSessionManager = new CookieSessionManager(keys);
+
+    const first = runMiddleware(cookieSessionManager);
+    first.req.session.isAuthenticated = true;
+    first.res.writeHead(200);
+
+    const second = runMiddleware(
+      cookieSessionManager,
+      toCookieHeader(first.cookies)
+    );
+
+    expect(second.req.session.isAuthenticated).toBe(true);
+  });
+
+  test('splits large tickets into chunks', () => {
+    const cookieSessionManager = new CookieSessionManager(keys);
+
+    const first = runMiddleware(cookieSessionManager);
+    first.req.session.nonce = 'x'.repeat(10000);
+    first.res.writeHead(200);
+
+    expect(Object.keys(first.cookies).length).toBeGreaterThan(1);
+
+    const second = runMiddleware(
+      cookieSessionManager,
+      toCookieHeader(first.cookies)
+    );
+
+    expect(second.req.session.nonce).toBe('x'.repeat(10000));
+  });
+
+  test('clears the ticket when session is destroyed', () => {
+    const cookieSessionManager = new CookieSessionManager(keys);
+
+    const first = runMiddleware(cookieSessionManager);
+    first.req.session.isAuthenticated = true;
+    first.res.writeHead(200);
+
+    const second = runMiddleware(
+      cookieSessionManager,
+      toCookieHeader(first.cookies)
+    );
+    second.req.session.destroy();
+    second.res.writeHead(200);
+
+    expect(second.clearedCookies).toEqual(Object.keys(first.cookies));
+  });
+
+  test('ignores tickets encrypted with unknown keys', () => {
+    const first = runMiddleware(
+      new CookieSessionManager([CryptoUtils.deriveKey('another_key')])
+    );
+    first.req.session.isAuthenticated = true;
+    first.res.writeHead(200);
+
+    const second = runMiddleware(
+      new CookieSessionManager(keys),
+      toCookieHeader(first.cookies)
+    );
+
+    expect(second.req.session.isAuthenticated).toBeUndefined();
+  });
+
+  test('keeps access tokens out of the ticket', () => {
+    const cookieSessionManager = new CookieSessionManager(keys);
+
+    const first = runMiddleware(cookieSessionManager);
+    first.req.session.remoteResources = {
+      graphAPI: {
+        endpoint: 'https://graph.microsoft.com/v1.0/me',
+        scopes: ['User.Read'],
+        accessToken: 'ACCESS_TOKEN',
+      },
+    };
+    first.res.writeHead(200);
+
+    const second = runMiddleware(
+      cookieSessionManager,
+      toCookieHeader(first.cookies)
+    );
+
+    expect(second.req.session.remoteResources.graphAPI).toEqual({
+      endpoint: 'https://graph.microsoft.com/v1.0/me',
+      scopes: ['User.Read'],
+    });
+    expect(first.req.session.remoteResources.graphAPI.accessToken).toBe(
+      'ACCESS_TOKEN'
+    );
+  });
+
+  test('expires tickets after the absolute timeout despite activity', () => {
+    const cookieSessionManager = new CookieSessionManager(keys, {
+      maxAge: 3600,
+      absoluteTimeout: 7200,
+    });
+
+    const issuedAt = new Date().getTime();
+    const getTime = jest.spyOn(Date.prototype, 'getTime');
+
+    const runMiddlewareAt = (seconds: number, cookieHeader?: string) => {
+      getTime.mockReturnValue(issuedAt + seconds * 1000);
+      const result = runMiddleware(cookieSessionManager, cookieHeader);
+      result.req.session.isAuthenticated = true;
+      result.res.writeHead(200);
+      return result;
+    };
+
+    const first = runMiddlewareAt(0);
+    const second = runMiddlewareAt(3000, toCookieHeader(first.cookies));
+    const third = runMiddlewareAt(6000, toCookieHeader(second.cookies));
+
+    // sliding expiry is capped by the absolute timeout
+    expect(third.res.cookie.mock.calls[0][2].maxAge).toBe(1200 * 1000);
+
+    getTime.mockReturnValue(issuedAt + 7300 * 1000);
+
+    const fourth = runMiddleware(
+      cookieSessionManager,
+      toCookieHeader(third.cookies)
+    );
+
+    expect(fourth.req.session.isAuthenticated).toBeUndefined();
+  });
+
+  test('ignores encrypted data that is not a ticket', () => {
+    // e.g. a state parameter sealed with the same key
+    const encrypted = CryptoUtils.encrypt(
+      JSON.stringify({ nonce: 'NONCE', stage: 'sign_in' }),
+      keys[0]
+    );
+
+    const { req } = runMiddleware(
+      new CookieSessionManager(keys),
+      `msal.session.0=${encrypted}`
+    );
+
+    expect(req.session.nonce).toBeUndefined();
+    expect(typeof req.session.destroy).toBe('function');
+  });
+});
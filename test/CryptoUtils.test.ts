@@ -0,0 +1,139 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import crypto from 'crypto';
+
+import { CryptoUtils } from '../src/CryptoUtils';
+import { ErrorMessages } from '../src/Constants';
+
+describe('CryptoUtils', () => {
+  const currentKey = CryptoUtils.deriveKey('current_key');
+  const retiredKey = CryptoUtils.deriveKey('retired_key');
+
+  test('derives the same key from the same secret on every instance', () => {
+    expect(currentKey).toHaveLength(32);
+    expect(CryptoUtils.deriveKey('current_key').equals(currentKey)).toBe(true);
+    expect(retiredKey.equals(currentKey)).toBe(false);
+  });
+
+  test('derives separate subkeys for each purpose', () => {
+    const stateKey = CryptoUtils.deriveSubkey(currentKey, 'state');
+    const sessionKey = CryptoUtils.deriveSubkey(currentKey, 'session');
+
+    expect(stateKey).toHaveLength(32);
+    expect(stateKey.equals(sessionKey)).toBe(false);
+    expect(stateKey.equals(currentKey)).toBe(false);
+
+    const encrypted = CryptoUtils.encrypt('some data', stateKey);
+    expect(() => CryptoUtils.decrypt(encrypted, [sessionKey])).toThrow(
+      ErrorMessages.CANNOT_DECRYPT
+    );
+  });
+
+  test('decrypts data encrypted with the same key', () => {
+    const encrypted = CryptoUtils.encrypt('some data', currentKey);
+    expect(CryptoUtils.decrypt(encrypted, [currentKey])).toBe('some data');
+  });
+
+  test('decrypts data encrypted with a retired key', () => {
+    const encrypted = CryptoUtils.encrypt('some data', retiredKey);
+    expect(CryptoUtils.decrypt(encrypted, [currentKey, retiredKey])).toBe(
+      'some data'
+    );
+  });
+
+  test('rejects data encrypted with an unknown key', () => {
+    const encrypted = CryptoUtils.encrypt('some data', retiredKey);
+    expect(() => CryptoUtils.decrypt(encrypted, [currentKey])).toThrow(
+      ErrorMessages.CANNOT_DECRYPT
+    );
+  });
+
+  test('rejects tampered data', () => {
+    const [iv, ciphertext, authTag] = CryptoUtils.encrypt(
+      'some data',
+      currentKey
+    ).split('.');
+
+    const tampered = CryptoUtils.base64UrlDecode(ciphertext);
+    tampered[0] = tampered[0] ^ 1;
+
+    expect(() =>
+      CryptoUtils.decrypt(
+        [iv, CryptoUtils.base64UrlEncode(tampered), authTag].join('.'),
+        [currentKey]
+      )
+    ).toThrow(ErrorMessages.CANNOT_DECRYPT);
+  });
+
+  test('rejects data with a truncated authentication tag', () => {
+    const [iv, ciphertext, authTag] = CryptoUtils.encrypt(
+      'some data',
+      currentKey
+    ).split('.');
+
+    const truncated = CryptoUtils.base64UrlDecode(authTag).slice(0, 4);
+
+    expect(() =>
+      CryptoUtils.decrypt(
+        [iv, ciphertext, CryptoUtils.base64UrlEncode(truncated)].join('.'),
+        [currentKey]
+      )
+    ).toThrow(ErrorMessages.CANNOT_DECRYPT);
+  });
+
+  test('hashes a string to a URL-safe digest', () => {
+    const hash = CryptoUtils.hash('some token');
+
+    expect(hash).toBe(CryptoUtils.hash('some token'));
+    expect(hash).not.toBe(CryptoUtils.hash('another token'));
+    expect(hash).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+
+  test('computes JWK thumbprints from required members only', () => {
+    const jwk = { kty: 'RSA', n: 'MODULUS', e: 'AQAB' };
+
+    expect(
+      CryptoUtils.getJwkThumbprint({ ...jwk, kid: 'KEY_ID', use: 'sig' })
+    ).toBe(CryptoUtils.getJwkThumbprint(jwk));
+
+    expect(CryptoUtils.getJwkThumbprint(jwk)).toBe(
+      CryptoUtils.hash('{"e":"AQAB","kty":"RSA","n":"MODULUS"}')
+    );
+
+    expect(() => CryptoUtils.getJwkThumbprint({ kty: 'oct' })).toThrow();
+  });
+
+  test('builds RSA public keys from JWK modulus and exponent', () => {
+    const { publicKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+
+    const jwk = CryptoUtils.getJwkFromPublicKey(publicKey);
+
+    expect(jwk.kty).toBe('RSA');
+    expect(jwk.e).toBe('AQAB');
+    expect(CryptoUtils.base64UrlDecode(jwk.n)).toHaveLength(256);
+
+    expect(
+      CryptoUtils.getPublicKeyFromJwk(jwk).export({
+        type: 'spki',
+        format: 'pem',
+      })
+    ).toBe(publicKey.export({ type: 'spki', format: 'pem' }));
+
+    expect(() =>
+      CryptoUtils.getPublicKeyFromJwk({ kty: 'EC', x: 'X', y: 'Y' } as any)
+    ).toThrow(ErrorMessages.UNSUPPORTED_KEY_TYPE);
+
+    const { publicKey: ecPublicKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+
+    expect(() => CryptoUtils.getJwkFromPublicKey(ecPublicKey)).toThrow(
+      ErrorMessages.UNSUPPORTED_KEY_TYPE
+    );
+  });
+});
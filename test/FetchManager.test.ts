@@ -0,0 +1,57 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import axios from 'axios';
+import { AuthenticationScheme } from '@azure/msal-common';
+
+import { FetchManager } from '../src/FetchManager';
+
+describe('FetchManager', () => {
+  const claims =
+    '{"access_token":{"nbf":{"essential":true,"value":"1604106651"}}}';
+
+  test('gets the decoded claims challenge from WWW-Authenticate header', () => {
+    const header = `Bearer realm="", authorization_uri="https://login.microsoftonline.com/common/oauth2/authorize", error="insufficient_claims", claims="${Buffer.from(
+      claims
+    ).toString('base64')}"`;
+
+    expect(FetchManager.getClaimsChallenge(header)).toBe(claims);
+  });
+
+  test('ignores headers without a claims challenge', () => {
+    expect(
+      FetchManager.getClaimsChallenge('Bearer error="invalid_token"')
+    ).toBeNull();
+    expect(FetchManager.getClaimsChallenge(undefined)).toBeNull();
+  });
+
+  describe('callApiEndpoint', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    const callApiEndpoint = async (
+      authenticationScheme?: AuthenticationScheme
+    ) => {
+      const get = jest
+        .spyOn(axios, 'get')
+        .mockResolvedValue({ data: { value: [] } });
+
+      await FetchManager.callApiEndpoint(
+        'https://localhost:4000/api/todos',
+        'TOKEN',
+        authenticationScheme
+      );
+
+      return get.mock.calls[0][1].headers.Authorization;
+    };
+
+    test('sends access tokens with the bearer scheme', async () => {
+      expect(await callApiEndpoint()).toBe('Bearer TOKEN');
+    });
+
+    test('sends signed HTTP requests with the PoP scheme', async () => {
+      expect(await callApiEndpoint(AuthenticationScheme.POP)).toBe('PoP TOKEN');
+    });
+  });
+});
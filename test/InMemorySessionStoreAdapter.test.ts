@@ -0,0 +1,38 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { InMemorySessionStoreAdapter } from '../src/InMemorySessionStoreAdapter';
+
+describe('InMemorySessionStoreAdapter', () => {
+  const now = Math.round(new Date().getTime() / 1000);
+
+  test('gets and removes sessions by key', async () => {
+    const adapter = new InMemorySessionStoreAdapter();
+
+    await adapter.addSession(['sid:1', 'sub:1'], 'SESSION_1');
+    await adapter.addSession(['sid:2', 'sub:1'], 'SESSION_2');
+
+    expect(await adapter.getSessions('sub:1')).toEqual([
+      'SESSION_1',
+      'SESSION_2',
+    ]);
+
+    await adapter.removeSession('SESSION_1');
+
+    expect(await adapter.getSessions('sid:1')).toEqual([]);
+    expect(await adapter.getSessions('sub:1')).toEqual(['SESSION_2']);
+  });
+
+  test('prunes sessions whose cookie has expired', async () => {
+    const adapter = new InMemorySessionStoreAdapter();
+
+    await adapter.addSession(['sid:1'], 'SESSION_1', now - 1);
+    await adapter.addSession(['sid:2'], 'SESSION_2', now + 3600);
+
+    expect(await adapter.getSessions('sid:1')).toEqual([]);
+    expect(await adapter.getSessions('sid:2')).toEqual(['SESSION_2']);
+    expect(adapter['sessionIndex'].has('sid:1')).toBe(false);
+  });
+});
@@ -0,0 +1,248 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { ConfidentialClientApplication } from '@azure/msal-node';
+
+import { PartitionedCachePlugin } from '../src/PartitionedCachePlugin';
+import { InMemoryCacheStore } from '../src/InMemoryCacheStore';
+import { FileCacheStore } from '../src/FileCacheStore';
+import { CacheConstants } from '../src/Constants';
+import { TEST_CONSTANTS } from './TestConstants';
+
+describe('PartitionedCachePlugin', () => {
+  const serializedCache = {
+    Account: {
+      'uid1.utid-login.microsoftonline.com-utid': {
+        home_account_id: 'uid1.utid',
+      },
+      'uid2.utid-login.microsoftonline.com-utid': {
+        home_account_id: 'uid2.utid',
+      },
+    },
+    IdToken: {},
+    AccessToken: {
+      'uid1.utid-at': { home_account_id: 'uid1.utid' },
+      '-app-at': { home_account_id: '' },
+    },
+    RefreshToken: {},
+    AppMetadata: { 'appmetadata-client': {} },
+  };
+
+  test('partitions cache by homeAccountId', () => {
+    const partitions = PartitionedCachePlugin.partitionCache(serializedCache);
+
+    expect(Object.keys(partitions).sort()).toEqual(
+      [CacheConstants.APP_PARTITION_KEY, 'uid1.utid', 'uid2.utid'].sort()
+    );
+    expect(Object.keys(partitions['uid1.utid'].AccessToken)).toEqual([
+      'uid1.utid-at',
+    ]);
+    expect(partitions['uid2.utid'].AccessToken).toEqual({});
+    expect(partitions['uid2.utid'].AppMetadata).toEqual(
+      serializedCache.AppMetadata
+    );
+  });
+
+  test('loads only the partition of the current user', async () => {
+    const partitions = PartitionedCachePlugin.partitionCache(serializedCache);
+
+    const cacheStore = new InMemoryCacheStore();
+    await cacheStore.set('uid1.utid', JSON.stringify(partitions['uid1.utid']));
+    await cacheStore.set('uid2.utid', JSON.stringify(partitions['uid2.utid']));
+
+    const cachePlugin = new PartitionedCachePlugin(cacheStore);
+
+    // in-memory cache still holds the partition of a finished operation
+    const tokenCache = {
+      deserialize: jest.fn(),
+      serialize: jest.fn(() => JSON.stringify(partitions['uid1.utid'])),
+    };
+
+    await PartitionedCachePlugin.runWithPartition('uid2.utid', () =>
+      cachePlugin.beforeCacheAccess({ tokenCache } as any)
+    );
+
+    expect(JSON.parse(tokenCache.deserialize.mock.calls[0][0])).toEqual(
+      partitions['uid2.utid']
+    );
+  });
+
+  test('evicts the least recently used partition', async () => {
+    const cacheStore = new InMemoryCacheStore(2);
+
+    await cacheStore.set('first', '1');
+    await cacheStore.set('second', '2');
+    await cacheStore.get('first');
+    await cacheStore.set('third', '3');
+
+    expect(await cacheStore.get('first')).toBe('1');
+    expect(await cacheStore.get('second')).toBeNull();
+  });
+
+  test('persists partitions to files', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'msal-cache-'));
+    const cacheStore = new FileCacheStore(directory);
+
+    await cacheStore.set('uid1.utid', 'PARTITION_1');
+    expect(await cacheStore.get('uid1.utid')).toBe('PARTITION_1');
+
+    await cacheStore.remove('uid1.utid');
+    expect(await cacheStore.get('uid1.utid')).toBeNull();
+    expect(fs.readdirSync(directory)).toEqual([]);
+
+    fs.rmdirSync(directory);
+  });
+
+  test('updates partitions in files atomically', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'msal-cache-'));
+    const cacheStore = new FileCacheStore(directory);
+
+    // each update reads the value written by the previous one
+    await Promise.all(
+      ['a', 'b', 'c', 'd', 'e'].map(entry =>
+        cacheStore.update('uid1.utid', value => (value || '') + entry)
+      )
+    );
+
+    expect(
+      (await cacheStore.get('uid1.utid'))
+        .split('')
+        .sort()
+        .join('')
+    ).toBe('abcde');
+
+    await cacheStore.remove('uid1.utid');
+    fs.rmdirSync(directory);
+  });
+
+  test('updates partitions in memory', async () => {
+    const cacheStore = new InMemoryCacheStore();
+
+    await cacheStore.update('uid1.utid', value => `${value}-1`);
+    await cacheStore.update('uid1.utid', value => `${value}-2`);
+
+    expect(await cacheStore.get('uid1.utid')).toBe('null-1-2');
+  });
+
+  describe('with MSAL token cache', () => {
+    const createAccount = (homeAccountId: string) => ({
+      [`${homeAccountId}-login.microsoftonline.com-utid`]: {
+        home_account_id: homeAccountId,
+        environment: 'login.microsoftonline.com',
+        realm: 'utid',
+        local_account_id: homeAccountId.split('.')[0],
+        username: `${homeAccountId}@contoso.com`,
+        authority_type: 'MSSTS',
+      },
+    });
+
+    const createPartition = (homeAccountId: string) =>
+      JSON.stringify({
+        ...CacheConstants.EMPTY_CACHE,
+        Account: createAccount(homeAccountId),
+      });
+
+    const setup = async () => {
+      const cacheStore = new InMemoryCacheStore();
+      await cacheStore.set('uid1.utid', createPartition('uid1.utid'));
+      await cacheStore.set('uid2.utid', createPartition('uid2.utid'));
+
+      const cachePlugin = new PartitionedCachePlugin(cacheStore);
+
+      const tokenCache = new ConfidentialClientApplication({
+        auth: {
+          clientId: TEST_CONSTANTS.CLIENT_ID,
+          authority: TEST_CONSTANTS.AUTHORITY,
+          clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+        },
+        cache: { cachePlugin },
+      }).getTokenCache();
+
+      return { cacheStore, cachePlugin, tokenCache };
+    };
+
+    const getInMemoryAccounts = (tokenCache: any) =>
+      Object.values(JSON.parse(tokenCache.serialize()).Account).map(
+        (account: any) => account.home_account_id
+      );
+
+    test('keeps partitions of operations in flight in memory', async () => {
+      const { tokenCache } = await setup();
+
+      await PartitionedCachePlugin.runWithPartition('uid1.utid', async () => {
+        expect(
+          (await tokenCache.getAllAccounts()).map(a => a.homeAccountId)
+        ).toEqual(['uid1.utid']);
+
+        // another user's request loads their partition meanwhile
+        await PartitionedCachePlugin.runWithPartition('uid2.utid', () =>
+          tokenCache.getAllAccounts()
+        );
+
+        // silent flow of the first user still finds their account in memory
+        expect(getInMemoryAccounts(tokenCache).sort()).toEqual([
+          'uid1.utid',
+          'uid2.utid',
+        ]);
+      });
+
+      // partitions of finished operations are dropped from memory
+      await PartitionedCachePlugin.runWithPartition('uid2.utid', () =>
+        tokenCache.getAllAccounts()
+      );
+
+      expect(getInMemoryAccounts(tokenCache)).toEqual(['uid2.utid']);
+    });
+
+    test('removes an account without wiping other partitions', async () => {
+      const { cacheStore, tokenCache } = await setup();
+
+      await PartitionedCachePlugin.runWithPartition('uid2.utid', async () => {
+        const account = await tokenCache.getAccountByHomeId('uid2.utid');
+        await tokenCache.removeAccount(account);
+      });
+
+      expect(await cacheStore.get('uid2.utid')).toBeNull();
+      expect(await cacheStore.get('uid1.utid')).toBe(
+        createPartition('uid1.utid')
+      );
+    });
+
+    test('merges partitions written outside of their partition', async () => {
+      const { cacheStore, cachePlugin, tokenCache } = await setup();
+
+      // e.g. a user signing in again, whose partition was not loaded
+      await cachePlugin.beforeCacheAccess({ tokenCache } as any);
+
+      tokenCache.deserialize(
+        JSON.stringify({
+          ...CacheConstants.EMPTY_CACHE,
+          Account: createAccount('uid3.utid'),
+          AccessToken: {
+            'uid1.utid-at': { home_account_id: 'uid1.utid' },
+          },
+        })
+      );
+
+      await cachePlugin.afterCacheAccess({
+        tokenCache,
+        cacheHasChanged: true,
+      } as any);
+
+      const uid1Partition = JSON.parse(await cacheStore.get('uid1.utid'));
+
+      expect(Object.keys(uid1Partition.Account)).toHaveLength(1);
+      expect(Object.keys(uid1Partition.AccessToken)).toEqual(['uid1.utid-at']);
+      expect(await cacheStore.get('uid2.utid')).toBe(
+        createPartition('uid2.utid')
+      );
+      expect(await cacheStore.get('uid3.utid')).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+import { AuthenticationScheme, INetworkModule } from '@azure/msal-common';
+import { ConfidentialClientApplication } from '@azure/msal-node';
+
+import { PopClientApplication } from '../src/PopClientApplication';
+import { CryptoUtils } from '../src/CryptoUtils';
+import { TokenValidator } from '../src/TokenValidator';
+import { ConfigurationUtils } from '../src/ConfigurationUtils';
+import { ErrorMessages } from '../src/Constants';
+import { AppSettings, PopSilentFlowRequest } from '../src/Types';
+import { TEST_CONSTANTS } from './TestConstants';
+
+describe('PopClientApplication', () => {
+  const authority = `https://login.microsoftonline.com/${TEST_CONSTANTS.TENANT_ID}`;
+  const homeAccountId = `uid.${TEST_CONSTANTS.TENANT_ID}`;
+  const environment = 'login.microsoftonline.com';
+
+  const serverKeys = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+
+  // cache with a signed-in account and its refresh token
+  const serializedCache = JSON.stringify({
+    Account: {
+      [`${homeAccountId}-${environment}-${TEST_CONSTANTS.TENANT_ID}`]: {
+        home_account_id: homeAccountId,
+        environment: environment,
+        realm: TEST_CONSTANTS.TENANT_ID,
+        local_account_id: 'uid',
+        username: 'user@contoso.com',
+        authority_type: 'MSSTS',
+      },
+    },
+    IdToken: {},
+    AccessToken: {},
+    RefreshToken: {
+      [`${homeAccountId}-${environment}-refreshtoken-${TEST_CONSTANTS.CLIENT_ID}--`]: {
+        home_account_id: homeAccountId,
+        environment: environment,
+        credential_type: 'RefreshToken',
+        client_id: TEST_CONSTANTS.CLIENT_ID,
+        secret: TEST_CONSTANTS.REFRESH_TOKEN,
+      },
+    },
+    AppMetadata: {},
+  });
+
+  /**
+   * Network client standing in for Azure AD, which binds
+   * access tokens to the key in the req_cnf parameter
+   */
+  const createNetworkClient = () => {
+    const tokenRequests: URLSearchParams[] = [];
+
+    const networkClient: INetworkModule = {
+      sendGetRequestAsync: async (url: string): Promise<any> => ({
+        status: 200,
+        headers: {},
+        body: url.includes('discovery/instance')
+          ? {
+              tenant_discovery_endpoint: `${authority}/v2.0/.well-known/openid-configuration`,
+              metadata: [
+                {
+                  preferred_network: environment,
+                  preferred_cache: 'login.windows.net',
+                  aliases: [environment, 'login.windows.net'],
+                },
+              ],
+            }
+          : {
+              authorization_endpoint: `${authority}/oauth2/v2.0/authorize`,
+              token_endpoint: `${authority}/oauth2/v2.0/token`,
+              end_session_endpoint: `${authority}/oauth2/v2.0/logout`,
+              issuer: `https://${environment}/{tenantid}/v2.0`,
+            },
+      }),
+      sendPostRequestAsync: async (url: string, options): Promise<any> => {
+        const params = new URLSearchParams(options.body);
+        tokenRequests.push(params);
+
+        const reqCnf = JSON.parse(
+          Buffer.from(params.get('req_cnf'), 'base64').toString()
+        );
+
+        return {
+          status: 200,
+          headers: {},
+          body: {
+            token_type: 'pop',
+            scope: params.get('scope'),
+            expires_in: 3600,
+            ext_expires_in: 3600,
+            access_token: jwt.sign(
+              {
+                aud: TEST_CONSTANTS.CLIENT_ID,
+                iss: `https://${environment}/${TEST_CONSTANTS.TENANT_ID}/v2.0`,
+                tid: TEST_CONSTANTS.TENANT_ID,
+                scp: 'access_as_user',
+                cnf: { kid: reqCnf.kid },
+              },
+              serverKeys.privateKey,
+              { algorithm: 'RS256', keyid: 'KEY_ID', expiresIn: 3600 }
+            ),
+            refresh_token: TEST_CONSTANTS.REFRESH_TOKEN,
+            client_info: CryptoUtils.base64UrlEncode(
+              Buffer.from(
+                JSON.stringify({ uid: 'uid', utid: TEST_CONSTANTS.TENANT_ID })
+              )
+            ),
+          },
+        };
+      },
+    };
+
+    return { networkClient, tokenRequests };
+  };
+
+  const createClientApplication = (networkClient: INetworkModule) => {
+    const clientApplication = PopClientApplication.create({
+      auth: {
+        clientId: TEST_CONSTANTS.CLIENT_ID,
+        authority: authority,
+        clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+      },
+      system: { networkClient },
+    });
+
+    clientApplication.getTokenCache().deserialize(serializedCache);
+    return clientApplication;
+  };
+
+  const acquirePopToken = async (
+    clientApplication: ConfidentialClientApplication,
+    forceRefresh = false
+  ) => {
+    const request: PopSilentFlowRequest = {
+      account: await clientApplication
+        .getTokenCache()
+        .getAccountByHomeId(homeAccountId),
+      scopes: ['User.Read'],
+      authenticationScheme: AuthenticationScheme.POP,
+      resourceRequestMethod: 'GET',
+      resourceRequestUri: 'https://localhost:4000/api/todos',
+      forceRefresh: forceRefresh,
+    };
+
+    return (await clientApplication.acquireTokenSilent(request)).accessToken;
+  };
+
+  test('acquires PoP tokens in signed HTTP requests bound to its key', async () => {
+    const { networkClient, tokenRequests } = createNetworkClient();
+    const clientApplication = createClientApplication(networkClient);
+
+    const signedHttpRequest = await acquirePopToken(clientApplication);
+    const claims: any = jwt.decode(signedHttpRequest);
+
+    expect(tokenRequests).toHaveLength(1);
+    expect(tokenRequests[0].get('token_type')).toBe('pop');
+
+    // signed with the key that the access token is bound to
+    const publicKey = CryptoUtils.getPublicKeyFromJwk(claims.cnf.jwk).export({
+      type: 'spki',
+      format: 'pem',
+    });
+
+    expect(() => jwt.verify(signedHttpRequest, publicKey)).not.toThrow();
+    expect((jwt.decode(claims.at) as any).cnf.kid).toBe(
+      CryptoUtils.getJwkThumbprint(claims.cnf.jwk)
+    );
+    expect(claims).toMatchObject({
+      m: 'GET',
+      u: 'localhost:4000',
+      p: '/api/todos/',
+    });
+
+    // cached token is signed again for each request
+    const cachedSignedHttpRequest = await acquirePopToken(clientApplication);
+
+    expect(tokenRequests).toHaveLength(1);
+    expect((jwt.decode(cachedSignedHttpRequest) as any).at).toBe(claims.at);
+    expect(cachedSignedHttpRequest).not.toBe(signedHttpRequest);
+  });
+
+  test('creates signed HTTP requests accepted by token validator', async () => {
+    const { networkClient } = createNetworkClient();
+
+    const apiSettings: AppSettings = {
+      appCredentials: {
+        clientId: TEST_CONSTANTS.CLIENT_ID,
+        tenantId: TEST_CONSTANTS.TENANT_ID,
+        clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+      },
+      authRoutes: {
+        redirect: '/redirect',
+        error: '/error',
+        unauthorized: '/unauthorized',
+      },
+      ownedResources: {
+        todoListAPI: {
+          endpoint: '/api/todos',
+          scopes: ['access_as_user'],
+        },
+      },
+      signingKeys: {
+        keys: [
+          {
+            ...CryptoUtils.getJwkFromPublicKey(serverKeys.publicKey),
+            kid: 'KEY_ID',
+            use: 'sig',
+          },
+        ],
+      },
+    };
+
+    const tokenValidator = new TokenValidator(
+      apiSettings,
+      ConfigurationUtils.getMsalConfiguration(apiSettings)
+    );
+
+    const signedHttpRequest = await acquirePopToken(
+      createClientApplication(networkClient)
+    );
+
+    expect(
+      await tokenValidator.verifySignedHttpRequest(
+        signedHttpRequest,
+        { method: 'GET', host: 'localhost:4000', path: '/api/todos' },
+        '/api/todos'
+      )
+    ).toBe(true);
+  });
+
+  test('refuses to sign cached tokens bound to the key of another instance', async () => {
+    const { networkClient, tokenRequests } = createNetworkClient();
+    const clientApplication = createClientApplication(networkClient);
+
+    await acquirePopToken(clientApplication);
+
+    // e.g. another instance of the app sharing the same cache
+    const anotherClientApplication = createClientApplication(networkClient);
+    anotherClientApplication
+      .getTokenCache()
+      .deserialize(clientApplication.getTokenCache().serialize());
+
+    await expect(acquirePopToken(anotherClientApplication)).rejects.toThrow(
+      ErrorMessages.POP_KEY_NOT_FOUND
+    );
+
+    // a refreshed token is bound to the key of this instance
+    await expect(
+      acquirePopToken(anotherClientApplication, true)
+    ).resolves.toBeTruthy();
+    expect(tokenRequests).toHaveLength(2);
+  });
+});
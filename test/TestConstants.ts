@@ -6,9 +6,17 @@
 export const TEST_CONSTANTS = {
   CLIENT_ID: '81b8a568-2442-4d53-8d6c-ededab4b7c62',
   TENANT_ID: '81b8a568-2442-4d53-8d6c-ededab4b7c62',
+  ALTERNATE_TENANT_ID: '72f988bf-86f1-41af-91ab-2d7cd011db47',
   DEFAULT_AUTHORITY: 'https://login.microsoftonline.com/common/',
   AUTHORITY: 'https://login.microsoftonline.com/TenantId',
   ALTERNATE_AUTHORITY: 'https://login.microsoftonline.com/alternate',
+  B2C_DOMAIN: 'fabrikamb2c.b2clogin.com',
+  B2C_SIGN_UP_SIGN_IN_AUTHORITY:
+    'https://fabrikamb2c.b2clogin.com/fabrikamb2c.onmicrosoft.com/B2C_1_susi',
+  B2C_EDIT_PROFILE_AUTHORITY:
+    'https://fabrikamb2c.b2clogin.com/fabrikamb2c.onmicrosoft.com/B2C_1_edit_profile',
+  B2C_RESET_PASSWORD_AUTHORITY:
+    'https://fabrikamb2c.b2clogin.com/fabrikamb2c.onmicrosoft.com/B2C_1_reset',
   REDIRECT_URI: 'http://localhost:8080',
   CLIENT_SECRET: 'MOCK_CLIENT_SECRET',
   DEFAULT_GRAPH_SCOPE: ['user.read'],
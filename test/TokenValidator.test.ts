@@ -0,0 +1,637 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+import { TokenValidator } from '../src/TokenValidator';
+import { ConfigurationUtils } from '../src/ConfigurationUtils';
+import { CryptoUtils } from '../src/CryptoUtils';
+import {
+  ErrorMessages,
+  LogoutConstants,
+  SigningKeyConstants,
+} from '../src/Constants';
+import {
+  AppSettings,
+  AccessTokenClaims,
+  IdTokenClaims,
+  LogoutTokenClaims,
+} from '../src/Types';
+import { TEST_CONSTANTS } from './TestConstants';
+
+describe('TokenValidator', () => {
+  const appSettings: AppSettings = {
+    appCredentials: {
+      clientId: TEST_CONSTANTS.CLIENT_ID,
+      tenantId: TEST_CONSTANTS.TENANT_ID,
+      clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+    },
+    authRoutes: {
+      redirect: TEST_CONSTANTS.APP_ROUTE,
+      error: TEST_CONSTANTS.APP_ROUTE,
+      unauthorized: TEST_CONSTANTS.APP_ROUTE,
+    },
+  };
+
+  const tokenValidator = new TokenValidator(
+    appSettings,
+    ConfigurationUtils.getMsalConfiguration(appSettings)
+  );
+
+  describe('validateLogoutTokenClaims', () => {
+    const logoutTokenClaims: LogoutTokenClaims = {
+      iss: `https://login.microsoftonline.com/${TEST_CONSTANTS.TENANT_ID}/v2.0`,
+      aud: TEST_CONSTANTS.CLIENT_ID,
+      iat: Math.round(new Date().getTime() / 1000),
+      jti: 'TOKEN_ID',
+      sid: 'SESSION_ID',
+      events: {
+        [LogoutConstants.BACK_CHANNEL_LOGOUT_EVENT]: {},
+      },
+    };
+
+    test('accepts a valid logout token', () => {
+      expect(tokenValidator.validateLogoutTokenClaims(logoutTokenClaims)).toBe(
+        true
+      );
+    });
+
+    test('rejects a logout token without the logout event', () => {
+      expect(
+        tokenValidator.validateLogoutTokenClaims({
+          ...logoutTokenClaims,
+          events: {},
+        })
+      ).toBe(false);
+    });
+
+    test('rejects a logout token with a nonce', () => {
+      expect(
+        tokenValidator.validateLogoutTokenClaims({
+          ...logoutTokenClaims,
+          nonce: 'NONCE',
+        })
+      ).toBe(false);
+    });
+
+    test('rejects a logout token for another audience', () => {
+      expect(
+        tokenValidator.validateLogoutTokenClaims({
+          ...logoutTokenClaims,
+          aud: 'ANOTHER_CLIENT_ID',
+        })
+      ).toBe(false);
+    });
+
+    test('rejects a logout token without jti', () => {
+      expect(
+        tokenValidator.validateLogoutTokenClaims({
+          ...logoutTokenClaims,
+          jti: undefined,
+        })
+      ).toBe(false);
+    });
+
+    test('rejects an old logout token, tolerating clock skew', () => {
+      expect(
+        tokenValidator.validateLogoutTokenClaims({
+          ...logoutTokenClaims,
+          iat: logoutTokenClaims.iat - 500,
+        })
+      ).toBe(true);
+
+      expect(
+        tokenValidator.validateLogoutTokenClaims({
+          ...logoutTokenClaims,
+          iat: logoutTokenClaims.iat - 700,
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe('validateIssuer', () => {
+    const multiTenantSettings: AppSettings = {
+      ...appSettings,
+      appCredentials: {
+        ...appSettings.appCredentials,
+        tenantId: 'organizations',
+      },
+      tenantRestrictions: {
+        deniedTenants: [TEST_CONSTANTS.ALTERNATE_TENANT_ID],
+      },
+    };
+
+    const multiTenantValidator = new TokenValidator(
+      multiTenantSettings,
+      ConfigurationUtils.getMsalConfiguration(multiTenantSettings)
+    );
+
+    test('validates issuer against the tid claim in multi-tenant apps', () => {
+      expect(
+        multiTenantValidator.validateIssuer({
+          iss: `https://login.microsoftonline.com/${TEST_CONSTANTS.TENANT_ID}/v2.0`,
+          tid: TEST_CONSTANTS.TENANT_ID,
+        })
+      ).toBe(true);
+
+      expect(
+        multiTenantValidator.validateIssuer({
+          iss: `https://login.microsoftonline.com/${TEST_CONSTANTS.TENANT_ID}/v2.0`,
+          tid: 'ANOTHER_TENANT_ID',
+        })
+      ).toBe(false);
+    });
+
+    test('rejects issuers of denied tenants', () => {
+      expect(
+        multiTenantValidator.validateIssuer({
+          iss: `https://login.microsoftonline.com/${TEST_CONSTANTS.ALTERNATE_TENANT_ID}/v2.0`,
+          tid: TEST_CONSTANTS.ALTERNATE_TENANT_ID,
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe('validateAccessTokenPermissions', () => {
+    const apiSettings: AppSettings = {
+      ...appSettings,
+      ownedResources: {
+        todoListAPI: {
+          endpoint: '/api/todos/:id',
+          methods: ['GET', 'DELETE'],
+          scopes: [`api://${TEST_CONSTANTS.CLIENT_ID}/access_as_user`],
+          roles: ['Todo.ReadWrite.All'],
+        },
+      },
+    };
+
+    const apiValidator = new TokenValidator(
+      apiSettings,
+      ConfigurationUtils.getMsalConfiguration(apiSettings)
+    );
+
+    test('checks delegated scopes of routes matching the endpoint pattern', () => {
+      expect(
+        apiValidator.validateAccessTokenPermissions(
+          { scp: 'access_as_user openid' },
+          '/api/todos/1',
+          'GET'
+        )
+      ).toBe(true);
+
+      expect(
+        apiValidator.validateAccessTokenPermissions(
+          { scp: 'openid' },
+          '/api/todos/1',
+          'GET'
+        )
+      ).toBe(false);
+    });
+
+    test('checks app permissions of tokens without a user', () => {
+      expect(
+        apiValidator.validateAccessTokenPermissions(
+          { roles: ['Todo.ReadWrite.All'] },
+          '/api/todos/1',
+          'DELETE'
+        )
+      ).toBe(true);
+
+      expect(
+        apiValidator.validateAccessTokenPermissions(
+          { roles: ['Todo.Read.All'] },
+          '/api/todos/1',
+          'DELETE'
+        )
+      ).toBe(false);
+    });
+
+    test('rejects methods not listed for the resource', () => {
+      expect(
+        apiValidator.validateAccessTokenPermissions(
+          { roles: ['Todo.ReadWrite.All'] },
+          '/api/todos/1',
+          'POST'
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('validateIdTokenClaims', () => {
+    const now = Math.round(new Date().getTime() / 1000);
+
+    const idTokenClaims: IdTokenClaims = {
+      iss: `https://login.microsoftonline.com/${TEST_CONSTANTS.TENANT_ID}/v2.0`,
+      aud: TEST_CONSTANTS.CLIENT_ID,
+      iat: now,
+      nbf: now,
+      exp: now + 3600,
+    };
+
+    test('accepts a valid id token', () => {
+      expect(tokenValidator.validateIdTokenClaims(idTokenClaims)).toEqual({
+        isValid: true,
+        failedChecks: [],
+      });
+    });
+
+    test('tolerates clock skew and reports failed checks', () => {
+      expect(
+        tokenValidator.validateIdTokenClaims({
+          ...idTokenClaims,
+          iat: now + 60,
+        }).isValid
+      ).toBe(true);
+
+      expect(
+        tokenValidator.validateIdTokenClaims({
+          ...idTokenClaims,
+          aud: 'ANOTHER_CLIENT_ID',
+          exp: now - 3600,
+        })
+      ).toEqual({
+        isValid: false,
+        failedChecks: ['audience', 'expiration'],
+      });
+    });
+
+    test('checks required claims', () => {
+      const strictSettings: AppSettings = {
+        ...appSettings,
+        validationOptions: {
+          requiredClaims: ['sid'],
+        },
+      };
+
+      const strictValidator = new TokenValidator(
+        strictSettings,
+        ConfigurationUtils.getMsalConfiguration(strictSettings)
+      );
+
+      expect(strictValidator.validateIdTokenClaims(idTokenClaims)).toEqual({
+        isValid: false,
+        failedChecks: ['requiredClaims'],
+      });
+    });
+  });
+
+  describe('validateIdTokenClaims with nonce', () => {
+    const now = Math.round(new Date().getTime() / 1000);
+
+    const idTokenClaims: IdTokenClaims = {
+      iss: `https://login.microsoftonline.com/${TEST_CONSTANTS.TENANT_ID}/v2.0`,
+      aud: TEST_CONSTANTS.CLIENT_ID,
+      iat: now,
+      exp: now + 3600,
+      nonce: 'NONCE',
+    };
+
+    test('accepts an id token with the nonce of the authorization request', () => {
+      expect(
+        tokenValidator.validateIdTokenClaims(idTokenClaims, 'NONCE').isValid
+      ).toBe(true);
+    });
+
+    test('rejects an id token with another or no nonce', () => {
+      expect(
+        tokenValidator.validateIdTokenClaims(idTokenClaims, 'ANOTHER_NONCE')
+      ).toEqual({
+        isValid: false,
+        failedChecks: ['nonce'],
+      });
+
+      expect(
+        tokenValidator.validateIdTokenClaims(
+          { ...idTokenClaims, nonce: undefined },
+          'NONCE'
+        ).isValid
+      ).toBe(false);
+    });
+  });
+
+  describe('validateAccessTokenClaims', () => {
+    const now = Math.round(new Date().getTime() / 1000);
+
+    const apiSettings: AppSettings = {
+      ...appSettings,
+      ownedResources: {
+        todoListAPI: {
+          endpoint: '/api/todos',
+          scopes: ['access_as_user'],
+        },
+      },
+    };
+
+    const apiValidator = new TokenValidator(
+      apiSettings,
+      ConfigurationUtils.getMsalConfiguration(apiSettings)
+    );
+
+    const accessTokenClaims: AccessTokenClaims = {
+      iss: `https://sts.windows.net/${TEST_CONSTANTS.TENANT_ID}/`,
+      aud: `api://${TEST_CONSTANTS.CLIENT_ID}`,
+      iat: now,
+      exp: now + 3600,
+      scp: 'access_as_user',
+    };
+
+    test('accepts access tokens issued by v1 endpoint', () => {
+      expect(
+        apiValidator.validateAccessTokenClaims(accessTokenClaims, '/api/todos')
+          .isValid
+      ).toBe(true);
+    });
+
+    test('checks issuers and audiences in validation options', () => {
+      const strictSettings: AppSettings = {
+        ...apiSettings,
+        validationOptions: {
+          audiences: [TEST_CONSTANTS.CLIENT_ID],
+          issuers: ['https://login.microsoftonline.com/{tenantid}/v2.0'],
+        },
+      };
+
+      const strictValidator = new TokenValidator(
+        strictSettings,
+        ConfigurationUtils.getMsalConfiguration(strictSettings)
+      );
+
+      expect(
+        strictValidator.validateAccessTokenClaims(
+          accessTokenClaims,
+          '/api/todos'
+        )
+      ).toEqual({
+        isValid: false,
+        failedChecks: ['issuer', 'audience'],
+      });
+    });
+  });
+
+  describe('verifyTokenSignature', () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+
+    const jwk = CryptoUtils.getJwkFromPublicKey(publicKey);
+
+    const offlineSettings: AppSettings = {
+      ...appSettings,
+      signingKeys: {
+        keys: [{ ...jwk, kid: 'KEY_ID', use: 'sig' }],
+      },
+    };
+
+    const offlineValidator = new TokenValidator(
+      offlineSettings,
+      ConfigurationUtils.getMsalConfiguration(offlineSettings)
+    );
+
+    const signToken = (kid: string) =>
+      jwt.sign({ tid: TEST_CONSTANTS.TENANT_ID }, privateKey, {
+        algorithm: 'RS256',
+        keyid: kid,
+      });
+
+    test('verifies tokens with in-memory signing keys', async () => {
+      const verifiedToken = await offlineValidator.verifyTokenSignature(
+        signToken('KEY_ID')
+      );
+
+      expect(verifiedToken).toMatchObject({ tid: TEST_CONSTANTS.TENANT_ID });
+    });
+
+    test('fetches signing keys only for allowed tenants in multi-tenant apps', async () => {
+      const multiTenantSettings: AppSettings = {
+        ...offlineSettings,
+        appCredentials: {
+          ...appSettings.appCredentials,
+          tenantId: 'organizations',
+        },
+        tenantRestrictions: {
+          allowedTenants: [TEST_CONSTANTS.TENANT_ID],
+        },
+      };
+
+      const multiTenantValidator = new TokenValidator(
+        multiTenantSettings,
+        ConfigurationUtils.getMsalConfiguration(multiTenantSettings)
+      );
+
+      const consoleLog = jest
+        .spyOn(console, 'log')
+        .mockImplementation(() => undefined);
+
+      const signTokenForTenant = (tid: string) =>
+        jwt.sign({ tid }, privateKey, {
+          algorithm: 'RS256',
+          keyid: 'UNKNOWN_KEY_ID',
+        });
+
+      for (const tid of [
+        'evil.example.com/x',
+        TEST_CONSTANTS.ALTERNATE_TENANT_ID,
+      ]) {
+        expect(
+          await multiTenantValidator.verifyTokenSignature(
+            signTokenForTenant(tid)
+          )
+        ).toBe(false);
+        expect(consoleLog).toHaveBeenLastCalledWith(
+          expect.objectContaining({
+            message: `${ErrorMessages.TENANT_NOT_ALLOWED} ${tid}`,
+          })
+        );
+      }
+
+      expect(multiTenantValidator['jwksClients'].size).toBe(0);
+
+      consoleLog.mockRestore();
+    });
+
+    test('keeps JWKS clients of recently used endpoints only', () => {
+      const getJwksUri = (i: number) =>
+        `https://login.microsoftonline.com/tenant${i}/discovery/v2.0/keys`;
+
+      for (let i = 0; i < SigningKeyConstants.MAX_JWKS_CLIENTS; i++) {
+        offlineValidator['getJwksClient'](getJwksUri(i));
+      }
+
+      offlineValidator['getJwksClient'](getJwksUri(0));
+      offlineValidator['getJwksClient'](getJwksUri(-1));
+
+      const jwksClients = offlineValidator['jwksClients'];
+
+      expect(jwksClients.size).toBe(SigningKeyConstants.MAX_JWKS_CLIENTS);
+      expect(jwksClients.has(getJwksUri(0))).toBe(true);
+      expect(jwksClients.has(getJwksUri(1))).toBe(false);
+      expect(jwksClients.has(getJwksUri(-1))).toBe(true);
+    });
+
+    test('accepts a logout token only once', async () => {
+      const logoutToken = jwt.sign(
+        {
+          iss: `https://login.microsoftonline.com/${TEST_CONSTANTS.TENANT_ID}/v2.0`,
+          aud: TEST_CONSTANTS.CLIENT_ID,
+          iat: Math.round(new Date().getTime() / 1000),
+          jti: 'TOKEN_ID',
+          sid: 'SESSION_ID',
+          events: { [LogoutConstants.BACK_CHANNEL_LOGOUT_EVENT]: {} },
+        },
+        privateKey,
+        { algorithm: 'RS256', keyid: 'KEY_ID' }
+      );
+
+      expect(
+        await offlineValidator.validateLogoutToken(logoutToken)
+      ).toMatchObject({ sid: 'SESSION_ID' });
+
+      expect(await offlineValidator.validateLogoutToken(logoutToken)).toBe(
+        false
+      );
+    });
+  });
+
+  describe('verifySignedHttpRequest', () => {
+    const now = Math.round(new Date().getTime() / 1000);
+
+    const serverKeys = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+    const clientKeys = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+
+    const serverJwk = CryptoUtils.getJwkFromPublicKey(serverKeys.publicKey);
+    const clientJwk = CryptoUtils.getJwkFromPublicKey(clientKeys.publicKey);
+
+    const popSettings: AppSettings = {
+      ...appSettings,
+      ownedResources: {
+        todoListAPI: {
+          endpoint: '/api/todos',
+          scopes: ['access_as_user'],
+        },
+      },
+      signingKeys: {
+        keys: [{ ...serverJwk, kid: 'KEY_ID', use: 'sig' }],
+      },
+    };
+
+    const popValidator = new TokenValidator(
+      popSettings,
+      ConfigurationUtils.getMsalConfiguration(popSettings)
+    );
+
+    const httpRequest = {
+      method: 'GET',
+      host: 'localhost:4000',
+      path: '/api/todos',
+    };
+
+    const signAccessToken = (cnf: object) =>
+      jwt.sign(
+        {
+          iss: `https://login.microsoftonline.com/${TEST_CONSTANTS.TENANT_ID}/v2.0`,
+          aud: TEST_CONSTANTS.CLIENT_ID,
+          iat: now,
+          exp: now + 3600,
+          scp: 'access_as_user',
+          cnf: cnf,
+        },
+        serverKeys.privateKey,
+        { algorithm: 'RS256', keyid: 'KEY_ID' }
+      );
+
+    // signed HTTP request as created by a client holding the PoP key
+    const createSignedHttpRequest = (accessToken: string, url: string) => {
+      const { host, pathname } = new URL(url);
+
+      return jwt.sign(
+        {
+          at: accessToken,
+          ts: Math.round(Date.now() / 1000),
+          m: 'GET',
+          u: host,
+          p: pathname,
+          nonce: crypto.randomBytes(16).toString('hex'),
+          cnf: { jwk: clientJwk },
+        },
+        clientKeys.privateKey,
+        { algorithm: 'RS256', header: { alg: 'RS256', typ: 'pop' } }
+      );
+    };
+
+    test('accepts a signed HTTP request once', async () => {
+      const accessToken = signAccessToken({
+        kid: CryptoUtils.getJwkThumbprint(clientJwk),
+      });
+
+      const signedHttpRequest = createSignedHttpRequest(
+        accessToken,
+        'http://localhost:4000/api/todos'
+      );
+
+      expect(
+        await popValidator.verifySignedHttpRequest(
+          signedHttpRequest,
+          httpRequest,
+          '/api/todos'
+        )
+      ).toBe(true);
+
+      // replayed request is rejected
+      expect(
+        await popValidator.verifySignedHttpRequest(
+          signedHttpRequest,
+          httpRequest,
+          '/api/todos'
+        )
+      ).toBe(false);
+    });
+
+    test('rejects a signed HTTP request for another URL', async () => {
+      const accessToken = signAccessToken({
+        kid: CryptoUtils.getJwkThumbprint(clientJwk),
+      });
+
+      const signedHttpRequest = createSignedHttpRequest(
+        accessToken,
+        'http://localhost:4000/api/other'
+      );
+
+      expect(
+        await popValidator.verifySignedHttpRequest(
+          signedHttpRequest,
+          httpRequest,
+          '/api/todos'
+        )
+      ).toBe(false);
+    });
+
+    test('checks key binding, method and timestamp of signed HTTP requests', () => {
+      const signedHttpRequestClaims = {
+        at: 'ACCESS_TOKEN',
+        ts: now - 600,
+        m: 'POST',
+        u: 'localhost:4000',
+        p: '/api/todos',
+        cnf: { jwk: clientJwk },
+      };
+
+      expect(
+        popValidator.validateSignedHttpRequestClaims(
+          signedHttpRequestClaims,
+          { cnf: { kid: CryptoUtils.getJwkThumbprint(serverJwk) } },
+          httpRequest
+        )
+      ).toEqual({
+        isValid: false,
+        failedChecks: ['cnf', 'method', 'timestamp'],
+      });
+    });
+  });
+});
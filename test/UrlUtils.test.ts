@@ -0,0 +1,66 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { UrlUtils } from '../src/UrlUtils';
+
+describe('UrlUtils', () => {
+  describe('isRedirectAllowed', () => {
+    test('allows relative paths', () => {
+      expect(UrlUtils.isRedirectAllowed('/')).toBe(true);
+      expect(UrlUtils.isRedirectAllowed('/profile?tab=1')).toBe(true);
+    });
+
+    test('rejects protocol-relative and malformed paths', () => {
+      expect(UrlUtils.isRedirectAllowed('//contoso.com')).toBe(false);
+      expect(UrlUtils.isRedirectAllowed('/\\contoso.com')).toBe(false);
+      expect(UrlUtils.isRedirectAllowed('javascript:alert(1)')).toBe(false);
+      expect(UrlUtils.isRedirectAllowed('')).toBe(false);
+    });
+
+    test('allows absolute URLs only for allowed origins', () => {
+      const allowedOrigins = ['https://contoso.com'];
+
+      expect(
+        UrlUtils.isRedirectAllowed('https://contoso.com/home', allowedOrigins)
+      ).toBe(true);
+      expect(
+        UrlUtils.isRedirectAllowed('https://fabrikam.com/home', allowedOrigins)
+      ).toBe(false);
+      expect(UrlUtils.isRedirectAllowed('https://contoso.com/home')).toBe(
+        false
+      );
+    });
+  });
+
+  describe('matchesPathPattern', () => {
+    test('matches named parameters within a single segment', () => {
+      expect(UrlUtils.matchesPathPattern('/api/todos/:id', '/api/todos/1')).toBe(
+        true
+      );
+      expect(UrlUtils.matchesPathPattern('/api/todos/:id', '/api/todos/1/')).toBe(
+        true
+      );
+      expect(UrlUtils.matchesPathPattern('/api/todos/:id', '/api/todos')).toBe(
+        false
+      );
+      expect(
+        UrlUtils.matchesPathPattern('/api/todos/:id', '/api/todos/1/items')
+      ).toBe(false);
+    });
+
+    test('matches optional parameters and wildcards', () => {
+      expect(UrlUtils.matchesPathPattern('/api/todos/:id?', '/api/todos')).toBe(
+        true
+      );
+      expect(UrlUtils.matchesPathPattern('/api/*', '/api/todos/1')).toBe(true);
+      expect(UrlUtils.matchesPathPattern('/api/*', '/apis')).toBe(false);
+    });
+
+    test('escapes regular expression characters in paths', () => {
+      expect(UrlUtils.matchesPathPattern('/api/v1.0', '/api/v1.0')).toBe(true);
+      expect(UrlUtils.matchesPathPattern('/api/v1.0', '/api/v1x0')).toBe(false);
+    });
+  });
+});